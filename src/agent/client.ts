@@ -0,0 +1,176 @@
+import { connect } from "net";
+
+import type { CredentialOptions } from "../authenticate.js";
+import { CachedCredentials } from "../cache.js";
+import { OpawsError } from "../errors.js";
+import { CORRELATION_ID, logger } from "../logger.js";
+import { formatDuration } from "../util.js";
+
+import {
+  AgentRequest,
+  agentResponseSchema,
+  AgentStatus,
+  getAgentSocketPath,
+} from "./protocol.js";
+
+//
+// The agent's event loop stops while op-js waits on a 1Password prompt, so
+// a connection can be accepted and never answered. Fetching credentials can
+// itself wait on a prompt, so gets longer.
+//
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const CREDENTIALS_TIMEOUT_MS = 2 * 60 * 1000;
+
+function isAgentNotRunningError(e: unknown) {
+  if (!(e instanceof Error) || !("code" in e)) return false;
+  return e.code === "ENOENT" || e.code === "ECONNREFUSED";
+}
+
+function sendRequest(socket: string, request: AgentRequest) {
+  const timeoutMs =
+    request.type === "credentials"
+      ? CREDENTIALS_TIMEOUT_MS
+      : REQUEST_TIMEOUT_MS;
+
+  return new Promise<string>((resolve, reject) => {
+    const connection = connect(socket);
+    let data = "";
+    connection.setEncoding("utf8");
+    connection.setTimeout(timeoutMs, () =>
+      connection.destroy(
+        new Error(
+          `The opaws agent didn't respond within ${formatDuration(timeoutMs)}.`,
+        ),
+      ),
+    );
+    connection.on("connect", () =>
+      connection.write(JSON.stringify(request) + "\n"),
+    );
+    connection.on("data", (chunk: string) => {
+      data += chunk;
+    });
+    connection.on("end", () => resolve(data));
+    connection.on("error", reject);
+  });
+}
+
+function parseResponse(line: string) {
+  try {
+    return agentResponseSchema.parse(JSON.parse(line));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sends a request to the agent. Returns undefined if no agent is running, or
+ * if it doesn't answer in time or answers with something other than a
+ * response; throws if the agent reports an error, keeping the kind of error
+ * it had.
+ */
+export async function requestAgent(request: AgentRequest) {
+  const socket = getAgentSocketPath();
+
+  let line: string;
+  try {
+    line = await sendRequest(socket, request);
+  } catch (e) {
+    if (isAgentNotRunningError(e)) {
+      logger.debug(`No agent is running`, { socket });
+    } else {
+      logger.warn(`The opaws agent is unavailable; not using it`, e);
+    }
+    return undefined;
+  }
+
+  const response = parseResponse(line);
+  if (response == null) {
+    logger.warn(`The opaws agent sent an invalid reply; not using it`, {
+      reply: line,
+    });
+    return undefined;
+  }
+  if (!response.ok) {
+    throw new OpawsError(
+      response.kind ?? "unknown",
+      `The opaws agent failed: ${response.error}`,
+    );
+  }
+  return response;
+}
+
+/**
+ * Gets credentials from the agent. Returns undefined if no agent is running,
+ * or if the agent couldn't ask for an MFA code and this process should.
+ */
+export async function getAgentCredentials(
+  options: CredentialOptions,
+): Promise<CachedCredentials | undefined> {
+  const response = await requestAgentCredentials(options);
+  if (response == null) return undefined;
+
+  logger.info(`Got credentials from the agent`);
+  if (response.credentials == null) {
+    throw new Error("The opaws agent returned no credentials.");
+  }
+  return response.credentials;
+}
+
+async function requestAgentCredentials(options: CredentialOptions) {
+  try {
+    return await sendCredentialsRequest(options);
+  } catch (e) {
+    //
+    // The agent runs detached, with no terminal to prompt on, so an item
+    // with an MFA serial but no seed can only be handled here.
+    //
+    if (!(e instanceof OpawsError) || e.kind !== "mfa-unavailable") throw e;
+    logger.info(
+      `The agent can't ask for an MFA code; getting credentials here`,
+    );
+    return undefined;
+  }
+}
+
+function sendCredentialsRequest(options: CredentialOptions) {
+  return requestAgent({
+    type: "credentials",
+    correlationId: CORRELATION_ID,
+    options: {
+      source: options.source,
+      opItem: options.opItem,
+      opVault: options.opVault,
+      opAccount: options.opAccount,
+      opField: options.opField,
+      roleArn: options.roleArn,
+      roleSessionName: options.roleSessionName,
+      viaRole: options.viaRole,
+      externalId: options.externalId,
+      sourceIdentity: options.sourceIdentity,
+      tag: options.tag,
+      policy: options.policy,
+      policyArn: options.policyArn,
+      duration: options.duration,
+      directRole: options.directRole,
+      rolesAnywhere: options.rolesAnywhere,
+      rolesAnywhereEndpoint: options.rolesAnywhereEndpoint,
+      refreshBefore: options.refreshBefore,
+      backgroundRefresh: options.backgroundRefresh,
+      mfa: options.mfa,
+      mfaCommand: options.mfaCommand,
+      stsRegion: options.stsRegion,
+      stsEndpoint: options.stsEndpoint,
+      stsFips: options.stsFips,
+      stsDualstack: options.stsDualstack,
+      proxy: options.proxy,
+      checkSource: options.checkSource,
+      checkSourceInterval: options.checkSourceInterval,
+      cache: options.cache,
+    },
+  });
+}
+
+export async function getAgentStatus(): Promise<AgentStatus | undefined> {
+  const response = await requestAgent({ type: "status" });
+  return response?.status;
+}
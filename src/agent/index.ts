@@ -0,0 +1,126 @@
+import { spawn } from "child_process";
+
+import { Command } from "@commander-js/extra-typings";
+
+import { configureDebugLogging } from "../logger.js";
+import { formatDuration, formatTable } from "../util.js";
+
+import { getAgentStatus, requestAgent } from "./client.js";
+import { getAgentSocketPath } from "./protocol.js";
+import { runAgent } from "./server.js";
+
+const START_TIMEOUT_MS = 10 * 1000;
+const START_POLL_INTERVAL_MS = 200;
+
+async function waitForAgent() {
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const status = await getAgentStatus();
+    if (status != null) return status;
+    await new Promise((resolve) => setTimeout(resolve, START_POLL_INTERVAL_MS));
+  }
+  return undefined;
+}
+
+export const command = new Command("agent")
+  .description(
+    "Manages the opaws agent, which holds credentials in memory and answers requests from other opaws commands.",
+  )
+  .addCommand(
+    new Command("start")
+      .option("--foreground", "Run the agent in this process.")
+      .option("--debug", "Log debug messages to the console.")
+      .description("Starts the agent, unless it is already running.")
+      .action(async (options) => {
+        if (options.debug) {
+          configureDebugLogging();
+        }
+
+        const running = await getAgentStatus();
+        if (running != null) {
+          console.log(`Agent is already running (pid ${running.pid}).`);
+          return;
+        }
+
+        if (options.foreground) {
+          await runAgent();
+          console.log(`Agent listening on ${getAgentSocketPath()}.`);
+          return;
+        }
+
+        spawn(
+          process.execPath,
+          [
+            ...process.execArgv,
+            process.argv[1],
+            "agent",
+            "start",
+            "--foreground",
+          ],
+          { detached: true, stdio: "ignore" },
+        ).unref();
+
+        const status = await waitForAgent();
+        if (status == null) {
+          console.error(`Agent did not start.`);
+          process.exit(1);
+        }
+        console.log(
+          `Agent started (pid ${status.pid}), listening on ${getAgentSocketPath()}.`,
+        );
+      }),
+  )
+  .addCommand(
+    new Command("stop")
+      .description("Stops the agent, discarding its credentials.")
+      .action(async () => {
+        const response = await requestAgent({ type: "stop" });
+        console.log(
+          response == null ? "Agent is not running." : "Agent stopped.",
+        );
+      }),
+  )
+  .addCommand(
+    new Command("status")
+      .option("--json", "Output status as JSON.")
+      .description("Shows whether the agent is running, and what it holds.")
+      .action(async (options) => {
+        const status = await getAgentStatus();
+
+        if (options.json) {
+          console.log(
+            JSON.stringify({ running: status != null, ...status }, null, 2),
+          );
+          return;
+        }
+
+        if (status == null) {
+          console.log("Agent is not running.");
+          return;
+        }
+
+        const now = Date.now();
+        console.log(
+          `Agent running (pid ${status.pid}) since ${status.startedAt}, on ${getAgentSocketPath()}.`,
+        );
+        if (status.entries.length === 0) return;
+
+        console.log();
+        console.log(
+          formatTable(
+            ["KIND", "ITEM", "ROLE", "REMAINING"],
+            status.entries.map(({ key, expiration }) => {
+              const remaining = new Date(expiration).getTime() - now;
+              return [
+                key.kind,
+                key.opItem,
+                key.kind === "role"
+                  ? [...(key.via ?? []), key.roleArn].join(" -> ")
+                  : "",
+                remaining > 0 ? formatDuration(remaining) : "expired",
+              ];
+            }),
+          ),
+        );
+      }),
+  );
@@ -0,0 +1,103 @@
+import { join } from "path";
+
+import { z } from "zod";
+
+import { cacheEntryKeySchema, cachedCredentialsSchema } from "../cache.js";
+import { ERROR_KINDS, ErrorKind } from "../errors.js";
+import { MFA_PROVIDERS } from "../mfa.js";
+import { SOURCE_NAMES, SourceName } from "../sources/index.js";
+import { OP_FIELD_NAMES } from "../sources/onepassword.js";
+import { OPAWS_CONFIG_DIRECTORY } from "../util.js";
+
+//
+// The agent and its clients talk over a unix socket, one request per
+// connection. Each side sends a single line of JSON.
+//
+
+export function getAgentSocketPath() {
+  return (
+    process.env.OPAWS_AGENT_SOCK ?? join(OPAWS_CONFIG_DIRECTORY, "agent.sock")
+  );
+}
+
+//
+// The credential options the agent needs, as sent by the client after its
+// profile has been applied.
+//
+const agentCredentialOptionsSchema = z.object({
+  source: z.enum(SOURCE_NAMES as [SourceName, ...SourceName[]]),
+  opItem: z.string(),
+  opVault: z.string().optional(),
+  opAccount: z.string().optional(),
+  opField: z.record(z.enum(OP_FIELD_NAMES), z.string()),
+  roleArn: z.string().optional(),
+  roleSessionName: z.string().optional(),
+  viaRole: z.array(z.string()).default([]),
+  externalId: z.string().optional(),
+  sourceIdentity: z.string().optional(),
+  tag: z.record(z.string()).default({}),
+  policy: z.string().optional(),
+  policyArn: z.array(z.string()).default([]),
+  duration: z.number().optional(),
+  directRole: z.boolean().optional(),
+  rolesAnywhere: z.boolean().optional(),
+  rolesAnywhereEndpoint: z.string().optional(),
+  refreshBefore: z.number(),
+  backgroundRefresh: z.number().optional(),
+  mfa: z.enum(MFA_PROVIDERS).default("auto"),
+  mfaCommand: z.string().optional(),
+  stsRegion: z.string().optional(),
+  stsEndpoint: z.string().optional(),
+  stsFips: z.boolean().optional(),
+  stsDualstack: z.boolean().optional(),
+  proxy: z.string().optional(),
+  checkSource: z.boolean().optional(),
+  checkSourceInterval: z.number().default(10 * 60),
+  cache: z.boolean(),
+});
+
+export const agentRequestSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("credentials"),
+    options: agentCredentialOptionsSchema,
+    //
+    // The client's, so its log and the agent's can be matched up.
+    //
+    correlationId: z.string().optional(),
+  }),
+  z.object({ type: z.literal("status") }),
+  z.object({ type: z.literal("stop") }),
+]);
+
+export const agentStatusSchema = z.object({
+  pid: z.number(),
+  startedAt: z.string(),
+  entries: z.array(
+    z.object({
+      key: cacheEntryKeySchema,
+      expiration: z.string(),
+    }),
+  ),
+});
+
+export const agentResponseSchema = z.union([
+  z.object({
+    ok: z.literal(false),
+    error: z.string(),
+    kind: z
+      .enum(Object.keys(ERROR_KINDS) as [ErrorKind, ...ErrorKind[]])
+      .optional(),
+  }),
+  z.object({
+    ok: z.literal(true),
+    credentials: cachedCredentialsSchema.optional(),
+    status: agentStatusSchema.optional(),
+  }),
+]);
+
+export type AgentRequest = z.infer<typeof agentRequestSchema>;
+export type AgentCredentialOptions = z.infer<
+  typeof agentCredentialOptionsSchema
+>;
+export type AgentStatus = z.infer<typeof agentStatusSchema>;
+export type AgentResponse = z.input<typeof agentResponseSchema>;
@@ -0,0 +1,120 @@
+import { mkdir } from "fs/promises";
+import { createServer, Socket } from "net";
+import { dirname } from "path";
+
+import {
+  CredentialOptions,
+  getOrFetchStoredCredentials,
+} from "../authenticate.js";
+import { classifyError, getErrorStacks } from "../errors.js";
+import { logger } from "../logger.js";
+import { createMemoryStore } from "../store.js";
+import { listenOnSocket, removeStaleSocket } from "../util.js";
+
+import {
+  AgentRequest,
+  agentRequestSchema,
+  AgentResponse,
+  getAgentSocketPath,
+} from "./protocol.js";
+
+/**
+ * Runs the agent until it is stopped. Credentials are kept only in memory,
+ * and fetches of the same session are serialised in-process rather than
+ * with lock directories.
+ */
+export async function runAgent() {
+  const socket = getAgentSocketPath();
+  const store = createMemoryStore();
+  const startedAt = new Date().toISOString();
+
+  const handle = async (request: AgentRequest): Promise<AgentResponse> => {
+    switch (request.type) {
+      case "credentials": {
+        //
+        // The client has already tried the agent; don't loop back to it.
+        //
+        const options = {
+          ...request.options,
+          agent: false,
+        } as CredentialOptions;
+        const creds = await getOrFetchStoredCredentials(options, store);
+        return {
+          ok: true,
+          credentials: {
+            AccessKeyId: creds.AccessKeyId!,
+            SecretAccessKey: creds.SecretAccessKey!,
+            SessionToken: creds.SessionToken!,
+            Expiration: creds.Expiration!.toISOString(),
+          },
+        };
+      }
+      case "status":
+        return {
+          ok: true,
+          status: {
+            pid: process.pid,
+            startedAt,
+            entries: store.entries().map((e) => ({
+              key: e.key,
+              expiration: e.expiration.toISOString(),
+            })),
+          },
+        };
+      case "stop":
+        setImmediate(shutdown);
+        return { ok: true };
+    }
+  };
+
+  const onConnection = (connection: Socket) => {
+    let data = "";
+    connection.setEncoding("utf8");
+    connection.on("error", (e) => logger.warn(`Agent connection error`, e));
+    connection.on("data", async (chunk: string) => {
+      data += chunk;
+      const newline = data.indexOf("\n");
+      if (newline < 0) return;
+      connection.removeAllListeners("data");
+
+      let response: AgentResponse;
+      try {
+        const request = agentRequestSchema.parse(
+          JSON.parse(data.slice(0, newline)),
+        );
+        logger.info(`Agent request`, {
+          type: request.type,
+          ...(request.type === "credentials"
+            ? {
+                correlationId: request.correlationId,
+                opItem: request.options.opItem,
+                roleArn: request.options.roleArn,
+              }
+            : {}),
+        });
+        response = await handle(request);
+      } catch (e) {
+        logger.error(`Agent request failed`, e);
+        logger.debug(`Error details`, { stacks: getErrorStacks(e) });
+        const error = classifyError(e);
+        response = { ok: false, error: error.message, kind: error.kind };
+      }
+      connection.end(JSON.stringify(response) + "\n");
+    });
+  };
+
+  const server = createServer(onConnection);
+
+  const shutdown = () => {
+    logger.info(`Agent shutting down`);
+    server.close();
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  await mkdir(dirname(socket), { recursive: true, mode: 0o700 });
+  await removeStaleSocket(socket);
+  await listenOnSocket(server, socket);
+
+  logger.info(`Agent listening`, { socket, pid: process.pid });
+}
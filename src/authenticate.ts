@@ -1,28 +1,65 @@
-import { exec } from "child_process";
-import { readFile, rename, writeFile } from "fs/promises";
+import { spawn } from "child_process";
 import assert from "node:assert";
-import { tmpdir } from "os";
-import { join } from "path";
 
-import op, { Item } from "@1password/op-js";
-import { Credentials, STS, STSServiceException } from "@aws-sdk/client-sts";
-import { Command } from "@commander-js/extra-typings";
-import { keyBy } from "lodash-es";
+import { AssumeRoleRequest, Credentials } from "@aws-sdk/client-sts";
+import {
+  Command,
+  InvalidArgumentError,
+  Option,
+} from "@commander-js/extra-typings";
 import timestring from "timestring";
-import { z } from "zod";
 
-import { withLock } from "./lock.js";
-import { configureDebugLogging, LOG_FILENAME, logger } from "./logger.js";
-import { notify } from "./notifier.js";
-import { isFileNotFoundError, sanitizeFilename } from "./util.js";
-
-type AwsKeys = {
-  accessKeyId: string;
-  secretAccessKey: string;
-} & (
-  | { totp: undefined; mfaSerial: undefined }
-  | { totp: string; mfaSerial: string }
-);
+import { getAgentCredentials } from "./agent/client.js";
+import { getAwsCredentialsFilename, writeIniSection } from "./awsfiles.js";
+import { CacheEntryKey, CachedCredentials, KeyOrigin } from "./cache.js";
+import { applyProfile } from "./config.js";
+import { classifyError, getErrorStacks } from "./errors.js";
+import {
+  credentialsToProfile,
+  OUTPUT_FORMATS,
+  renderCredentials,
+} from "./format.js";
+import { describeHolder, LockInfo } from "./lock.js";
+import {
+  configureDebugLogging,
+  CORRELATION_ID,
+  LOG_FILENAME,
+  logger,
+} from "./logger.js";
+import { finishRun } from "./logs.js";
+import {
+  isInteractiveMfaProvider,
+  MFA_PROVIDERS,
+  resolveMfaCode,
+} from "./mfa.js";
+import { notify, openFile } from "./notifier.js";
+import { createRolesAnywhereSession } from "./rolesanywhere.js";
+import {
+  AwsKeys,
+  DEFAULT_SOURCE,
+  getAwsKeys,
+  getRolesAnywhereCertificate,
+  SOURCE_NAMES,
+} from "./sources/index.js";
+import {
+  getCertificateOrigin,
+  getKeyOrigin,
+  isSameKeyOrigin,
+} from "./sources/keys.js";
+import { parseOpFieldMapping } from "./sources/onepassword.js";
+import { CredentialStore, diskStore } from "./store.js";
+import {
+  createStsClient,
+  getStsCacheKey,
+  resolveStsRegion,
+  StsOptions,
+} from "./sts.js";
+import { fingerprint } from "./util.js";
+
+//
+// AWS's limit for roles assumed with temporary credentials.
+//
+const CHAINED_ROLE_MAX_SECONDS = 60 * 60;
 
 type BaseCreds = {
   accessKeyId: string;
@@ -30,224 +67,361 @@ type BaseCreds = {
   sessionToken?: string;
 };
 
-const opSchema = z
-  .object({
-    "access key id": z.object({
-      type: z.literal("STRING"),
-      value: z.string(),
-    }),
-    "secret access key": z.object({
-      type: z.union([z.literal("CONCEALED"), z.literal("STRING")]),
-      value: z.string(),
-    }),
-  })
-  .and(
-    z.union([
-      z.object({
-        "mfa serial": z.object({
-          type: z.literal("STRING"),
-          value: z.string(),
-        }),
-        "one-time password": z.object({
-          type: z.literal("OTP"),
-          totp: z.string(),
-        }),
-      }),
-      z.object({
-        "mfa serial": z.undefined(),
-        "one-time password": z.undefined(),
-      }),
-    ]),
-  );
-
-const cachedCredentialsSchema = z.object({
-  AccessKeyId: z.string(),
-  SecretAccessKey: z.string(),
-  SessionToken: z.string(),
-  Expiration: z
-    .string()
-    .datetime()
-    .transform((s) => new Date(s)),
-});
-
-type CachedCredentials = z.infer<typeof cachedCredentialsSchema>;
-
-export const command = new Command("authenticate")
-  .option("-r, --role-arn <role ARN>", "Specify a role to assume.")
-  .option(
-    "-s, --role-session-name <role session name>",
-    "Specify a session name for the assumed role session.",
-  )
-  .requiredOption(
-    "-i, --op-item <op item>",
-    `Name or ID of the 1Password item containing the AWS access keys.`,
-  )
-  .option(
-    "-v, --op-vault <op vault name>",
-    "Name or ID of the 1Password vault containing the item.",
-  )
-  .option(
-    "-a, --op-account <op account name>",
-    "Name or ID of the 1Password account containing the item.",
-  )
-  .option(
-    "-d, --duration <duration>",
-    "Duration of the session. Expressed as a time string, see https://www.npmjs.com/package/timestring.",
-    (value) => timestring(value),
-  )
-  .option("--debug", "Log debug messages to the console.")
-  .option("--no-cache", "Do not use cached credentials if they exist.")
-  .description("Generates credentials as an AWS CLI credential_process.")
-  .action(authenticate);
+const REPEATABLE_OPTIONS = ["viaRole", "tag", "policyArn", "opField"];
 
-type AuthenticateOptions = ReturnType<typeof command.opts>;
+function parseSessionTag(
+  value: string,
+  previous: Record<string, string>,
+): Record<string, string> {
+  const separator = value.indexOf("=");
+  if (separator <= 0) {
+    throw new InvalidArgumentError(`Expected <key>=<value>.`);
+  }
+  return {
+    ...previous,
+    [value.slice(0, separator)]: value.slice(separator + 1),
+  };
+}
 
-function isInvalidMfaError(e: unknown): e is STSServiceException & {
-  Code: "AccessDenied";
-  message: "MultiFactorAuthentication failed with invalid MFA one time pass code. ";
-} {
-  if (!(e instanceof STSServiceException)) return false;
-  if (!("Code" in e)) return false;
-  if (!("message" in e)) return false;
-  return (
-    e.Code === "AccessDenied" &&
-    e.message ===
-      "MultiFactorAuthentication failed with invalid MFA one time pass code. "
-  );
+function parseSessionPolicy(value: string) {
+  try {
+    JSON.parse(value);
+  } catch (e) {
+    throw new InvalidArgumentError(`Not valid JSON: ${(e as Error).message}`);
+  }
+  return value;
 }
 
-function getTotpSecondsRemaining() {
+/**
+ * Creates a command with the options that determine which credentials to
+ * produce. Shared by every command that obtains credentials.
+ */
+export function createCredentialCommand(name: string) {
+  const command = new Command(name)
+    .option(
+      "-p, --profile <profile>",
+      "Name of a profile in the opaws config file to take options from. Options given on the command line take precedence.",
+    )
+    .option("-r, --role-arn <role ARN>", "Specify a role to assume.")
+    .option(
+      "-s, --role-session-name <role session name>",
+      "Specify a session name for the assumed role session.",
+    )
+    .option(
+      "--via-role <role ARN>",
+      "Assume this role first, and --role-arn with its credentials. Can be repeated for longer chains, in order.",
+      (value, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
+    .option(
+      "--external-id <external ID>",
+      "External ID to give when assuming --role-arn, if its trust policy requires one.",
+    )
+    .option(
+      "--source-identity <source identity>",
+      "Source identity to set on each role session, for attribution. Once set, it can't be changed along a chain.",
+    )
+    .option(
+      "--tag <key=value>",
+      "Session tag to set when assuming --role-arn. Can be repeated.",
+      parseSessionTag,
+      {},
+    )
+    .option(
+      "--policy <json>",
+      "Inline session policy, as JSON, to scope down the permissions of --role-arn.",
+      parseSessionPolicy,
+    )
+    .option(
+      "--policy-arn <policy ARN>",
+      "Managed policy to scope down the permissions of --role-arn with. Can be repeated.",
+      (value, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
+    .requiredOption(
+      "-i, --op-item <op item>",
+      `Name or ID of the 1Password item containing the AWS access keys. With --source, the name of the item or entry in that source.`,
+    )
+    .addOption(
+      new Option("--source <source>", "Where to read the AWS access keys from.")
+        .choices(SOURCE_NAMES)
+        .default(DEFAULT_SOURCE),
+    )
+    .option(
+      "-v, --op-vault <op vault name>",
+      "Name or ID of the 1Password vault containing the item.",
+    )
+    .option(
+      "-a, --op-account <op account name>",
+      "Name or ID of the 1Password account containing the item.",
+    )
+    .option(
+      "--op-field <field=selector>",
+      "Where to find a value in the 1Password item, if not the default field. Field is one of access-key-id, secret-access-key, mfa-serial or totp, or with --roles-anywhere, certificate, private-key, certificate-chain, trust-anchor-arn, profile-arn or role-arn; selector is a field label or ID, <section>/<field>, or an op:// secret reference. Can be repeated.",
+      parseOpFieldMapping,
+      {},
+    )
+    .option(
+      "-d, --duration <duration>",
+      "Duration of the session. Expressed as a time string, see https://www.npmjs.com/package/timestring.",
+      (value) => timestring(value),
+    )
+    .option(
+      "--refresh-before <duration>",
+      "Treat cached credentials as expired once they are within this long of expiring. Expressed as a time string.",
+      (value) => timestring(value),
+      60,
+    )
+    .option(
+      "--direct-role",
+      "Assume the role with the long-term keys and MFA code, rather than from a session, so that it can last longer than an hour, up to the role's maximum session duration. Each role then needs an MFA code of its own.",
+    )
+    .addOption(
+      new Option(
+        "--roles-anywhere",
+        "The item holds an X.509 certificate and private key rather than access keys. Sessions are created with IAM Roles Anywhere, as the item's role, rather than with GetSessionToken.",
+      ).conflicts("directRole"),
+    )
+    .option(
+      "--roles-anywhere-endpoint <url>",
+      "URL of the IAM Roles Anywhere endpoint to use, e.g. a local stand-in for testing. Defaults to the one in the trust anchor's region.",
+    )
+    .option(
+      "--background-refresh <duration>",
+      "When assuming a role, refresh the underlying session in the background once it is within this long of expiring. Expressed as a time string.",
+      (value) => timestring(value),
+    )
+    .addOption(
+      new Option(
+        "--mfa <provider>",
+        "Where to get the MFA code from, if the item has an MFA serial: the item's one-time password, --mfa-command, a prompt in the terminal, or a notification with a reply field. auto uses the first of these available.",
+      )
+        .choices(MFA_PROVIDERS)
+        .default("auto" as const),
+    )
+    .option(
+      "--mfa-command <command>",
+      "Command that prints the MFA code, run with the MFA serial in OPAWS_MFA_SERIAL.",
+    )
+    .option(
+      "--sts-region <region>",
+      "Region of the STS endpoint to use. Defaults to the AWS SDK's region, e.g. from AWS_REGION.",
+    )
+    .option(
+      "--sts-endpoint <url>",
+      "URL of the STS endpoint to use, e.g. a VPC endpoint or a local stand-in for testing.",
+    )
+    .option("--sts-fips", "Use a FIPS STS endpoint.")
+    .option("--sts-dualstack", "Use a dual-stack (IPv4 and IPv6) STS endpoint.")
+    .option(
+      "--proxy <url>",
+      "HTTP proxy to send STS and IAM Roles Anywhere requests through. Defaults to HTTPS_PROXY, except for hosts in NO_PROXY.",
+    )
+    .option(
+      "--check-source",
+      "Before using cached credentials, read the keys from the source and check that the credentials were issued from them. Each check is a full read of the item, and may cause a 1Password prompt, so an item is checked at most once per --check-source-interval.",
+    )
+    .option(
+      "--check-source-interval <duration>",
+      "With --check-source, how long an item found current isn't checked again. Expressed as a time string.",
+      (value) => timestring(value),
+      10 * 60,
+    )
+    .option(
+      "--notify-lock-wait",
+      "Show a notification when waiting for another opaws process, which may be waiting on a 1Password prompt.",
+    )
+    .option("--debug", "Log debug messages to the console.")
+    .option("--no-cache", "Do not use cached credentials if they exist.")
+    .option("--no-agent", "Do not use the opaws agent, even if it is running.");
+
   //
-  // TOTPs cycle every 30 seconds starting at the unix epoch
+  // Applied as soon as the option is parsed, rather than in a hook, so that
+  // values from the profile count towards required options.
   //
-  const secondsSinceEpoch = Math.floor(Date.now() / 1000);
-  return 30 - (secondsSinceEpoch % 30);
-}
+  command.on("option:profile", (profile: string) =>
+    applyProfile(command, profile),
+  );
 
-function tmpFile(prefix: string, parts: (string | undefined)[], ext: string) {
-  const key = [prefix, ...parts.map((p) => p ?? "default")].join("-");
-  return join(tmpdir(), sanitizeFilename(`${key}.${ext}`));
-}
+  //
+  // Commander adds each value of a repeatable option to those it already
+  // has, which would chain a profile's via roles with those given on the
+  // command line. The profile's are dropped instead, so the command line's
+  // replace them, as they do for other options.
+  //
+  for (const option of command.options) {
+    const key = option.attributeName();
+    const parse = option.parseArg;
+    if (!REPEATABLE_OPTIONS.includes(key) || parse == null) continue;
+    option.argParser((value, previous) =>
+      parse(
+        value,
+        command.getOptionValueSource(key) === "config"
+          ? option.defaultValue
+          : previous,
+      ),
+    );
+  }
 
-function getSessionCacheFilename(options: AuthenticateOptions) {
-  return tmpFile(
-    "opaws-cache-session",
-    [options.opAccount, options.opVault, options.opItem],
-    "json",
-  );
+  return command;
 }
 
-function getRoleCacheFilename(options: AuthenticateOptions) {
-  assert.ok(options.roleArn);
-  return tmpFile(
-    "opaws-cache-role",
-    [
-      options.opAccount,
-      options.opVault,
-      options.opItem,
-      options.roleArn,
-      options.roleSessionName,
-    ],
-    "json",
-  );
+/**
+ * Creates the authenticate command without its action, so that the
+ * arguments of credential_process lines can be parsed with it too.
+ */
+export function createAuthenticateCommand() {
+  return createCredentialCommand("authenticate")
+    .addOption(
+      new Option("--format <format>", "How to output the credentials.")
+        .choices(OUTPUT_FORMATS)
+        .default("credential-process" as const),
+    )
+    .option(
+      "--credentials-profile <profile>",
+      "With --format credentials-file, the profile to write to in the AWS shared credentials file.",
+    )
+    .addOption(
+      new Option(
+        "--refresh-session",
+        "Refresh the session cache without printing credentials.",
+      ).hideHelp(),
+    )
+    .description("Generates credentials as an AWS CLI credential_process.");
 }
 
-function getSessionLockDirectory(options: AuthenticateOptions) {
-  const key = [
-    "opaws-lock-session",
-    options.opAccount ?? "default",
-    options.opVault ?? "default",
-    options.opItem,
-  ].join("-");
-  return join(tmpdir(), sanitizeFilename(key));
-}
+export const command = createAuthenticateCommand().action(authenticate);
 
-async function readCachedCredentials(
-  filename: string,
-): Promise<CachedCredentials | undefined> {
-  let data: string;
-  try {
-    data = (await readFile(filename)).toString();
-  } catch (e) {
-    if (!isFileNotFoundError(e)) throw e;
-    logger.debug(`No cached credentials found.`, { filename });
-    return undefined;
-  }
+type AuthenticateOptions = ReturnType<typeof command.opts>;
 
-  try {
-    const creds = cachedCredentialsSchema.parse(JSON.parse(data));
-    if (creds.Expiration.getTime() < Date.now()) {
-      logger.info(`Cached credentials expired as of ${creds.Expiration}.`, {
-        filename,
-      });
-      return undefined;
-    }
-    logger.debug(`Found cached credentials`, { filename });
-    return creds;
-  } catch (e) {
-    logger.warn(`Invalid cached credentials.`, e);
-    return undefined;
-  }
-}
+export type CredentialOptions = ReturnType<
+  ReturnType<typeof createCredentialCommand>["opts"]
+>;
 
-async function writeCachedCredentials(filename: string, creds: Credentials) {
+function getTotpSecondsRemaining() {
   //
-  // Write to a temp file then rename, so a concurrent reader never sees
-  // a half-written JSON document.
+  // TOTPs cycle every 30 seconds starting at the unix epoch
   //
-  const tmp = `${filename}.tmp.${process.pid}`;
-  await writeFile(tmp, JSON.stringify(creds, null, 2));
-  await rename(tmp, filename);
+  const secondsSinceEpoch = Math.floor(Date.now() / 1000);
+  return 30 - (secondsSinceEpoch % 30);
 }
 
-function get1pAwsKeys(options: AuthenticateOptions): AwsKeys {
-  const { opAccount, opVault, opItem } = options;
+//
+// Cache entries from the default source have no source in their key, so
+// existing entries stay valid.
+//
+function getCacheSource(options: CredentialOptions) {
+  return options.source !== DEFAULT_SOURCE ? options.source : undefined;
+}
 
-  logger.debug(`Looking for item in 1password`, {
-    opAccount,
-    opVault,
-    opItem,
-  });
+//
+// Sessions from IAM Roles Anywhere, and the roles assumed with them, are
+// kept apart from those issued from access keys.
+//
+function getIssuerCacheKey(options: CredentialOptions) {
+  const sts = getStsCacheKey(options);
+  if (!options.rolesAnywhere) return sts;
+  return ["rolesanywhere", options.rolesAnywhereEndpoint, sts]
+    .filter((part) => part != null)
+    .join("-");
+}
 
-  const item = op.item.get(opItem, {
-    account: opAccount,
-    vault: opVault,
-  }) as Item;
+export function getSessionCacheKey(options: CredentialOptions): CacheEntryKey {
+  return {
+    kind: "session",
+    source: getCacheSource(options),
+    sts: getIssuerCacheKey(options),
+    opAccount: options.opAccount,
+    opVault: options.opVault,
+    opItem: options.opItem,
+  };
+}
 
-  logger.debug(`Found 1password item`, {
-    id: item.id,
-    title: item.title,
-    vault: item.vault,
-  });
+//
+// One AssumeRole call in a chain: each --via-role in turn, and then
+// --role-arn. Each hop is cached on its own, so a chain can pick up from the
+// last hop whose credentials are still valid.
+//
+type RoleHop = { roleArn: string; via: string[] };
 
-  const fields = opSchema.safeParse(keyBy(item.fields, "label"));
+function getRoleHops(options: CredentialOptions): RoleHop[] {
+  assert.ok(options.roleArn);
+  const roleArns = [...options.viaRole, options.roleArn];
+  return roleArns.map((roleArn, i) => ({
+    roleArn,
+    via: roleArns.slice(0, i),
+  }));
+}
 
-  if (!fields.success) {
-    logger.warn(fields.error);
-    logger.error(command.helpInformation());
-    throw new Error(
-      `1Password item ${item.id} is missing some fields, or they are the wrong type`,
-    );
-  }
+/**
+ * The AssumeRole parameters for a hop, besides its role, session name,
+ * duration and MFA. The source identity can't change along a chain, so
+ * every hop sets it; the rest apply to --role-arn, the credentials asked
+ * for.
+ */
+function getAssumeRoleParameters(
+  options: CredentialOptions,
+  hop: RoleHop,
+): Partial<AssumeRoleRequest> {
+  const parameters: Partial<AssumeRoleRequest> = {
+    SourceIdentity: options.sourceIdentity,
+  };
+  if (hop.via.length < options.viaRole.length) return parameters;
 
+  const tags = Object.entries(options.tag);
   return {
-    accessKeyId: fields.data["access key id"].value,
-    secretAccessKey: fields.data["secret access key"].value,
-    mfaSerial: fields.data["mfa serial"]?.value,
-    totp: fields.data["one-time password"]?.totp,
-  } as AwsKeys;
+    ...parameters,
+    ExternalId: options.externalId,
+    Tags:
+      tags.length > 0
+        ? tags.map(([Key, Value]) => ({ Key, Value }))
+        : undefined,
+    Policy: options.policy,
+    PolicyArns:
+      options.policyArn.length > 0
+        ? options.policyArn.map((arn) => ({ arn }))
+        : undefined,
+  };
+}
+
+/**
+ * Keys the cache entry for a hop, by default the last. Hops assumed with
+ * different parameters get different entries; the parameters are only
+ * fingerprinted, as the key is stored unencrypted.
+ */
+export function getRoleCacheKey(
+  options: CredentialOptions,
+  hop = getRoleHops(options).at(-1)!,
+): CacheEntryKey {
+  const parameters = getAssumeRoleParameters(options, hop);
+  return {
+    kind: "role",
+    source: getCacheSource(options),
+    sts: getIssuerCacheKey(options),
+    opAccount: options.opAccount,
+    opVault: options.opVault,
+    opItem: options.opItem,
+    roleArn: hop.roleArn,
+    roleSessionName: options.roleSessionName,
+    via: hop.via.length > 0 ? hop.via : undefined,
+    params: Object.values(parameters).some((v) => v != null)
+      ? fingerprint(JSON.stringify(parameters))
+      : undefined,
+  };
 }
 
 async function fetchSessionToken(
   keys: AwsKeys,
   durationSeconds: number | undefined,
+  options: StsOptions,
 ): Promise<Credentials> {
-  const sts = new STS({
-    credentials: {
+  const sts = createStsClient(
+    {
       accessKeyId: keys.accessKeyId,
       secretAccessKey: keys.secretAccessKey,
     },
-  });
+    options,
+  );
 
   const response = await sts.getSessionToken({
     SerialNumber: keys.mfaSerial,
@@ -261,21 +435,51 @@ async function fetchSessionToken(
   return response.Credentials;
 }
 
+/**
+ * The duration to ask AssumeRole for, in seconds. --duration applies to
+ * --role-arn; the hops before it get the default. A role assumed with
+ * temporary credentials is capped at an hour by AWS. One assumed directly
+ * can last up to its MaxSessionDuration, which AWS checks itself.
+ */
+function getRoleDurationSeconds(options: CredentialOptions, hop: RoleHop) {
+  if (options.duration == null) return undefined;
+  if (hop.via.length < options.viaRole.length) return undefined;
+
+  const direct = options.directRole && hop.via.length === 0;
+  if (direct || options.duration <= CHAINED_ROLE_MAX_SECONDS) {
+    return options.duration;
+  }
+
+  logger.warn(
+    hop.via.length > 0
+      ? `Roles assumed from another role last at most an hour.`
+      : `Roles assumed from a session last at most an hour. Use --direct-role for longer.`,
+    { duration: options.duration },
+  );
+  return CHAINED_ROLE_MAX_SECONDS;
+}
+
+/**
+ * Assumes a hop's role with the given credentials: those of the hop before,
+ * a session's, or with --direct-role, the long-term keys, along with their
+ * MFA code if any.
+ */
 async function fetchAssumedRole(
   baseCreds: BaseCreds,
-  options: AuthenticateOptions,
+  options: CredentialOptions,
+  hop: RoleHop,
+  mfa?: { serialNumber: string; tokenCode: string },
 ): Promise<Credentials> {
-  assert.ok(options.roleArn);
-
-  const sts = new STS({ credentials: baseCreds });
+  const sts = createStsClient(baseCreds, options);
 
   const response = await sts.assumeRole({
-    RoleArn: options.roleArn,
+    ...getAssumeRoleParameters(options, hop),
+    RoleArn: hop.roleArn,
     RoleSessionName:
       options.roleSessionName ?? `temporary-session-${Date.now().toString()}`,
-    DurationSeconds: options.duration
-      ? Math.min(options.duration, 60 * 60 * 1000)
-      : undefined,
+    DurationSeconds: getRoleDurationSeconds(options, hop),
+    SerialNumber: mfa?.serialNumber,
+    TokenCode: mfa?.tokenCode,
   });
 
   if (response.Credentials == null) {
@@ -285,24 +489,31 @@ async function fetchAssumedRole(
 }
 
 async function getOrFetchSessionCredentials(
-  options: AuthenticateOptions,
+  options: CredentialOptions,
+  store: CredentialStore,
 ): Promise<CachedCredentials | Credentials> {
-  const cacheFile = getSessionCacheFilename(options);
+  const cacheKey = getSessionCacheKey(options);
 
   if (options.cache) {
-    const cached = await readCachedCredentials(cacheFile);
-    if (cached) return cached;
+    const cached = await store.read(cacheKey, options.refreshBefore);
+    if (cached && (await isIssuedFromCurrentKeys(options, store, cacheKey))) {
+      return cached;
+    }
   } else {
     logger.debug("Skipping session cache");
   }
 
-  return withLock(getSessionLockDirectory(options), async () => {
+  const lockOptions = {
+    onWait: options.notifyLockWait ? notifyLockWait : undefined,
+  };
+
+  return store.withSessionLock(cacheKey, lockOptions, async () => {
     //
     // Re-check after acquiring the lock: a concurrent process may have
     // populated the cache while we were waiting.
     //
     if (options.cache) {
-      const cached = await readCachedCredentials(cacheFile);
+      const cached = await store.read(cacheKey, options.refreshBefore);
       if (cached) return cached;
     }
 
@@ -315,15 +526,69 @@ async function getOrFetchSessionCredentials(
     const sessionDuration =
       options.roleArn != null ? undefined : options.duration;
 
-    let keys = get1pAwsKeys(options);
-    let creds: Credentials | undefined;
+    const { creds, origin } = options.rolesAnywhere
+      ? await fetchRolesAnywhereSession(options, sessionDuration)
+      : await fetchSessionWithKeys(options, sessionDuration);
+    await discardIfKeysChanged(options, store, origin);
+    await store.write(cacheKey, creds, origin);
+    return creds;
+  });
+}
 
-    for (let i = 0; i < 2 && creds == null; i++) {
-      try {
-        creds = await fetchSessionToken(keys, sessionDuration);
-      } catch (e) {
-        if (!isInvalidMfaError(e) || i > 0) throw e;
+async function fetchSessionWithKeys(
+  options: CredentialOptions,
+  durationSeconds: number | undefined,
+): Promise<{ creds: Credentials; origin: KeyOrigin }> {
+  const { creds, keys } = await fetchWithKeys(options, (keys) =>
+    fetchSessionToken(keys, durationSeconds, options),
+  );
+  return { creds, origin: getKeyOrigin(keys) };
+}
 
+/**
+ * With --roles-anywhere, exchanges the item's certificate for a session as
+ * its role. There's no MFA: the private key is the second factor.
+ */
+async function fetchRolesAnywhereSession(
+  options: CredentialOptions,
+  durationSeconds: number | undefined,
+): Promise<{ creds: Credentials; origin: KeyOrigin }> {
+  const certificate = await getRolesAnywhereCertificate(
+    options.source,
+    options,
+  );
+  const creds = await createRolesAnywhereSession(
+    certificate,
+    durationSeconds,
+    options,
+  );
+  return { creds, origin: getCertificateOrigin(certificate) };
+}
+
+/**
+ * Reads the keys from the source, with their MFA code, and makes a request
+ * with them. If AWS rejects the code, tries once more with a new one.
+ * Returns the keys used, too.
+ */
+async function fetchWithKeys(
+  options: CredentialOptions,
+  fetch: (keys: AwsKeys) => Promise<Credentials>,
+): Promise<{ creds: Credentials; keys: AwsKeys }> {
+  let { keys, provider } = await resolveMfaCode(
+    await getAwsKeys(options.source, options),
+    options,
+  );
+
+  for (let i = 0; ; i++) {
+    try {
+      return { creds: await fetch(keys), keys };
+    } catch (e) {
+      if (classifyError(e).kind !== "mfa-invalid" || i > 0) throw e;
+
+      //
+      // Someone typing the code can wait for the next one themselves.
+      //
+      if (!isInteractiveMfaProvider(provider)) {
         const pauseSeconds = getTotpSecondsRemaining() + 3;
         logger.warn(
           `Invalid MFA code on first attempt. Pausing for ${pauseSeconds} seconds to try again in case of reuse.`,
@@ -331,30 +596,287 @@ async function getOrFetchSessionCredentials(
         await new Promise((resolve) =>
           setTimeout(resolve, pauseSeconds * 1000),
         );
-        keys = get1pAwsKeys(options);
       }
+      ({ keys, provider } = await resolveMfaCode(
+        await getAwsKeys(options.source, options),
+        options,
+        true,
+      ));
     }
+  }
+}
 
-    assert.ok(creds != null);
-    await writeCachedCredentials(cacheFile, creds);
-    return creds;
+/**
+ * With --direct-role, assumes the first hop's role with the long-term keys.
+ * This still holds the session lock, so that reads of the item and uses of
+ * its MFA codes are serialised as for sessions.
+ */
+async function fetchDirectRoleCredentials(
+  options: CredentialOptions,
+  store: CredentialStore,
+  hop: RoleHop,
+): Promise<CachedCredentials | Credentials> {
+  const cacheKey = getRoleCacheKey(options, hop);
+  const lockOptions = {
+    onWait: options.notifyLockWait ? notifyLockWait : undefined,
+  };
+
+  return store.withSessionLock(
+    getSessionCacheKey(options),
+    lockOptions,
+    async () => {
+      if (options.cache) {
+        const cached = await store.read(cacheKey, options.refreshBefore);
+        if (cached) return cached;
+      }
+
+      const { creds, keys } = await fetchWithKeys(options, (keys) =>
+        fetchAssumedRole(
+          {
+            accessKeyId: keys.accessKeyId,
+            secretAccessKey: keys.secretAccessKey,
+          },
+          options,
+          hop,
+          keys.mfaSerial != null && keys.totp != null
+            ? { serialNumber: keys.mfaSerial, tokenCode: keys.totp }
+            : undefined,
+        ),
+      );
+      const origin = getKeyOrigin(keys);
+      await discardIfKeysChanged(options, store, origin);
+      await store.write(cacheKey, creds, origin);
+      return creds;
+    },
+  );
+}
+
+/**
+ * Discards the item's credentials issued from other keys, once keys have
+ * been read from its source. Rotating the keys, or pointing the item name at
+ * another item, would otherwise leave roles assumed with the old keys cached
+ * until they expire.
+ */
+async function discardIfKeysChanged(
+  options: CredentialOptions,
+  store: CredentialStore,
+  origin: KeyOrigin,
+) {
+  const sessionKey = getSessionCacheKey(options);
+  const previous = await store.readOrigin(sessionKey);
+  if (isSameKeyOrigin(previous, origin)) return;
+
+  if (previous != null) {
+    logger.warn(
+      `The keys in ${options.opItem} have changed. Discarding credentials issued from the old keys.`,
+      { previous, origin },
+    );
+  }
+  await store.invalidate(sessionKey, origin);
+}
+
+/**
+ * With --check-source, reads the keys again and checks that cached
+ * credentials were issued from them, discarding the item's credentials if
+ * not. Reading the source can mean a 1Password prompt, so an item found
+ * current isn't checked again for --check-source-interval. Always true
+ * otherwise.
+ */
+async function isIssuedFromCurrentKeys(
+  options: CredentialOptions,
+  store: CredentialStore,
+  cacheKey: CacheEntryKey,
+) {
+  if (!options.checkSource) return true;
+
+  const checkedAt = await store.readSourceCheckedAt(cacheKey);
+  if (
+    checkedAt != null &&
+    Date.now() - checkedAt < options.checkSourceInterval * 1000
+  ) {
+    logger.debug(`Source checked recently; not checking again`, {
+      checkedAt: new Date(checkedAt),
+    });
+    return true;
+  }
+
+  const origin = options.rolesAnywhere
+    ? getCertificateOrigin(
+        await getRolesAnywhereCertificate(options.source, options),
+      )
+    : getKeyOrigin(await getAwsKeys(options.source, options));
+  if (isSameKeyOrigin(await store.readOrigin(cacheKey), origin)) {
+    await store.markSourceChecked(cacheKey);
+    return true;
+  }
+
+  logger.warn(
+    `Cached credentials for ${options.opItem} weren't issued from the keys now in it. Discarding them.`,
+  );
+  await store.invalidate(cacheKey, origin);
+  return false;
+}
+
+//
+// The lock's holder is most likely waiting for the user to approve a
+// 1Password prompt, which may be hidden behind other windows.
+//
+function notifyLockWait(holder: LockInfo | undefined) {
+  void notify({
+    title: "OPAWS",
+    message: `Waiting for ${describeHolder(holder)}. A 1Password prompt may need your attention.`,
+    timeout: 10,
   });
 }
 
+function refreshSessionInBackground(options: CredentialOptions) {
+  assert.ok(options.backgroundRefresh != null);
+
+  const args = [
+    "authenticate",
+    "--refresh-session",
+    "--refresh-before",
+    `${options.backgroundRefresh}s`,
+    "--op-item",
+    options.opItem,
+    "--source",
+    options.source,
+  ];
+  if (options.opVault != null) args.push("--op-vault", options.opVault);
+  if (options.opAccount != null) args.push("--op-account", options.opAccount);
+  for (const [field, selector] of Object.entries(options.opField)) {
+    args.push("--op-field", `${field}=${selector}`);
+  }
+  args.push("--mfa", options.mfa);
+  if (options.mfaCommand != null) {
+    args.push("--mfa-command", options.mfaCommand);
+  }
+  if (options.stsRegion != null) args.push("--sts-region", options.stsRegion);
+  if (options.stsEndpoint != null) {
+    args.push("--sts-endpoint", options.stsEndpoint);
+  }
+  if (options.stsFips) args.push("--sts-fips");
+  if (options.stsDualstack) args.push("--sts-dualstack");
+  if (options.proxy != null) args.push("--proxy", options.proxy);
+  if (options.rolesAnywhere) args.push("--roles-anywhere");
+  if (options.rolesAnywhereEndpoint != null) {
+    args.push("--roles-anywhere-endpoint", options.rolesAnywhereEndpoint);
+  }
+
+  logger.info(`Refreshing session in the background`, { args });
+
+  //
+  // Detach so the AWS SDK gets its credentials (and our exit) without waiting
+  // on what may be a 1Password or MFA prompt.
+  //
+  spawn(process.execPath, [...process.execArgv, process.argv[1], ...args], {
+    detached: true,
+    stdio: "ignore",
+    env: { ...process.env, OPAWS_CORRELATION_ID: CORRELATION_ID },
+  }).unref();
+}
+
+async function checkSessionForBackgroundRefresh(
+  options: CredentialOptions,
+  store: CredentialStore,
+) {
+  if (options.backgroundRefresh == null || !options.cache) return;
+
+  const session = await store.read(
+    getSessionCacheKey(options),
+    options.refreshBefore,
+  );
+  if (session == null) {
+    //
+    // Missing or expired; the foreground request will fetch a new one.
+    //
+    return;
+  }
+
+  const remainingMs = session.Expiration.getTime() - Date.now();
+  if (remainingMs >= options.backgroundRefresh * 1000) return;
+
+  if (!store.longLived) {
+    refreshSessionInBackground(options);
+    return;
+  }
+
+  //
+  // A long-lived process can refresh without waiting on it, and the session
+  // lock keeps the foreground requests from duplicating the work.
+  //
+  logger.info(`Refreshing session in the background`);
+  getOrFetchSessionCredentials(
+    {
+      ...options,
+      roleArn: undefined,
+      refreshBefore: options.backgroundRefresh,
+    },
+    store,
+  ).catch((e) => logger.warn(`Background session refresh failed`, e));
+}
+
+function toBaseCreds(creds: CachedCredentials | Credentials): BaseCreds {
+  return {
+    accessKeyId: creds.AccessKeyId!,
+    secretAccessKey: creds.SecretAccessKey!,
+    sessionToken: creds.SessionToken!,
+  };
+}
+
 async function getOrFetchRoleCredentials(
-  options: AuthenticateOptions,
+  options: CredentialOptions,
+  store: CredentialStore,
 ): Promise<CachedCredentials | Credentials> {
   assert.ok(options.roleArn);
 
-  const cacheFile = getRoleCacheFilename(options);
+  if (!options.directRole) {
+    await checkSessionForBackgroundRefresh(options, store);
+  }
+
+  return await getOrFetchHopCredentials(options, store, getRoleHops(options));
+}
+
+/**
+ * Gets the credentials for the last of the hops from the cache, or assumes
+ * its role with those of the hop before it, or of the session for the
+ * first.
+ */
+async function getOrFetchHopCredentials(
+  options: CredentialOptions,
+  store: CredentialStore,
+  hops: RoleHop[],
+): Promise<CachedCredentials | Credentials> {
+  const hop = hops[hops.length - 1];
+  const previous = hops.slice(0, -1);
+  const cacheKey = getRoleCacheKey(options, hop);
 
   if (options.cache) {
-    const cached = await readCachedCredentials(cacheFile);
-    if (cached) return cached;
+    const cached = await store.read(cacheKey, options.refreshBefore);
+    if (cached && (await isIssuedFromCurrentKeys(options, store, cacheKey))) {
+      return cached;
+    }
   } else {
     logger.debug("Skipping role cache");
   }
 
+  if (previous.length > 0) {
+    const base = await getOrFetchHopCredentials(options, store, previous);
+    const creds = await fetchAssumedRole(toBaseCreds(base), options, hop);
+    await store.write(
+      cacheKey,
+      creds,
+      await store.readOrigin(
+        getRoleCacheKey(options, previous[previous.length - 1]),
+      ),
+    );
+    return creds;
+  }
+
+  if (options.directRole) {
+    return await fetchDirectRoleCredentials(options, store, hop);
+  }
+
   //
   // Always go through the session-creds path. This serialises the 1P read
   // behind the session lock, so concurrent invocations for different roles
@@ -363,38 +885,110 @@ async function getOrFetchRoleCredentials(
   //
   // Tradeoff: AssumeRole chained from a session token is hard-capped at 1
   // hour by AWS. The credential_process gets re-invoked on expiry, so this
-  // is transparent in normal use.
+  // is transparent in normal use; --direct-role is for when it isn't.
   //
-  const session = await getOrFetchSessionCredentials(options);
-  const baseCreds: BaseCreds = {
-    accessKeyId: session.AccessKeyId!,
-    secretAccessKey: session.SecretAccessKey!,
-    sessionToken: session.SessionToken!,
-  };
-
-  const creds = await fetchAssumedRole(baseCreds, options);
-  await writeCachedCredentials(cacheFile, creds);
+  const session = await getOrFetchSessionCredentials(options, store);
+  const creds = await fetchAssumedRole(toBaseCreds(session), options, hop);
+  await store.write(
+    cacheKey,
+    creds,
+    await store.readOrigin(getSessionCacheKey(options)),
+  );
   return creds;
 }
 
+/**
+ * Gets credentials from the given store, fetching and storing them if
+ * needed. The agent uses this with its in-memory store.
+ */
+export async function getOrFetchStoredCredentials(
+  options: CredentialOptions,
+  store: CredentialStore,
+): Promise<CachedCredentials | Credentials> {
+  options = await resolveStsRegion(options);
+  return options.roleArn != null
+    ? await getOrFetchRoleCredentials(options, store)
+    : await getOrFetchSessionCredentials(options, store);
+}
+
+/**
+ * Gets credentials from the agent if one is running, otherwise from the
+ * cache files, fetching them if needed.
+ */
+export async function getOrFetchCredentials(
+  options: CredentialOptions,
+): Promise<CachedCredentials | Credentials> {
+  //
+  // Resolved here, so the agent uses this process's region rather than its
+  // own.
+  //
+  options = await resolveStsRegion(options);
+  if (options.agent) {
+    const creds = await getAgentCredentials(options);
+    if (creds != null) return creds;
+  }
+  return getOrFetchStoredCredentials(options, diskStore);
+}
+
 async function generateCredentials(options: AuthenticateOptions) {
   logger.info(`Generating credentials`, options);
 
-  const creds =
-    options.roleArn != null
-      ? await getOrFetchRoleCredentials(options)
-      : await getOrFetchSessionCredentials(options);
-
-  console.log(
-    JSON.stringify(
-      {
-        ...creds,
-        Version: 1,
-      },
-      null,
-      2,
-    ),
-  );
+  if (options.refreshSession) {
+    await getOrFetchSessionCredentials(
+      await resolveStsRegion({ ...options, roleArn: undefined }),
+      diskStore,
+    );
+    return;
+  }
+
+  const creds = await getOrFetchCredentials(options);
+
+  if (options.format === "credentials-file") {
+    const filename = getAwsCredentialsFilename();
+    assert.ok(options.credentialsProfile != null);
+    await writeIniSection(
+      filename,
+      options.credentialsProfile,
+      credentialsToProfile(creds),
+    );
+    console.log(
+      `Wrote credentials for profile ${options.credentialsProfile} to ${filename}.`,
+    );
+    return;
+  }
+
+  console.log(renderCredentials(creds, options.format));
+}
+
+/**
+ * Reports a failure to obtain credentials on the console, and with a
+ * notification when there's no terminal to see it. Returns the exit code
+ * for the kind of failure.
+ */
+export async function reportFailure(e: unknown) {
+  const error = classifyError(e);
+
+  console.error(`Failed to generate credentials.`);
+  logger.error(e);
+  logger.debug(`Error details`, { stacks: getErrorStacks(e) });
+  if (error.hint != null) console.error(error.hint);
+  console.error(`Debug log saved to ${LOG_FILENAME}.`);
+
+  if (!process.stdout.isTTY) {
+    const result = await notify({
+      title: "OPAWS",
+      message: [error.message || "Error generating credentials", error.hint]
+        .filter((m) => m != null)
+        .join("\n"),
+      actions: ["View Log"],
+    });
+
+    if (result?.kind === "action" && result.action === "View Log") {
+      openFile(LOG_FILENAME);
+    }
+  }
+
+  return error.exitCode;
 }
 
 async function authenticate(options: AuthenticateOptions) {
@@ -402,27 +996,22 @@ async function authenticate(options: AuthenticateOptions) {
     configureDebugLogging();
   }
 
+  if (
+    options.format === "credentials-file" &&
+    options.credentialsProfile == null
+  ) {
+    command.error(
+      "error: --credentials-profile is required with --format credentials-file",
+    );
+  }
+
+  const runName = options.refreshSession ? "refresh-session" : "authenticate";
   try {
     await generateCredentials(options);
   } catch (e) {
-    console.error(`Failed to generate credentials.`);
-    console.error(`Debug log saved to ${LOG_FILENAME}.`);
-
-    logger.error(e);
-
-    if (!process.stdout.isTTY) {
-      const result = await notify({
-        title: "OPAWS",
-        message:
-          (e instanceof Error ? e.message : undefined) ??
-          "Error generating credentials",
-        actions: ["View Log"],
-      });
-
-      if (result?.kind === "action" && result.action === "View Log") {
-        exec(`open ${LOG_FILENAME}`).unref();
-      }
-    }
-    process.exit(1);
+    const exitCode = await reportFailure(e);
+    await finishRun(runName, options, e);
+    process.exit(exitCode);
   }
+  await finishRun(runName, options);
 }
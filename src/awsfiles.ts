@@ -0,0 +1,169 @@
+import { copyFile, readFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+
+import { isFileNotFoundError, writeFileAtomic } from "./util.js";
+
+export type IniSection = {
+  name: string;
+  values: Record<string, string>;
+  /** Index of the section header line. */
+  start: number;
+  /** Index after the last line of the section, excluding trailing blanks. */
+  end: number;
+};
+
+export type IniFile = {
+  lines: string[];
+  sections: IniSection[];
+};
+
+export function getAwsCredentialsFilename() {
+  return (
+    process.env.AWS_SHARED_CREDENTIALS_FILE ??
+    join(homedir(), ".aws", "credentials")
+  );
+}
+
+export function getAwsConfigFilename() {
+  return process.env.AWS_CONFIG_FILE ?? join(homedir(), ".aws", "config");
+}
+
+/**
+ * Maps a profile name to its section name in ~/.aws/config, where every
+ * profile except the default one is prefixed.
+ */
+export function configSectionName(profile: string) {
+  return profile === "default" ? profile : `profile ${profile}`;
+}
+
+/**
+ * The inverse of configSectionName. Returns undefined for sections that
+ * aren't profiles, such as sso-session.
+ */
+export function profileFromConfigSection(section: string) {
+  if (section === "default") return section;
+  const match = /^profile\s+(.+)$/.exec(section);
+  return match?.[1];
+}
+
+async function readOptionalFile(filename: string) {
+  try {
+    return (await readFile(filename)).toString();
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+    return "";
+  }
+}
+
+const SECTION_HEADER = /^\s*\[([^\]]+)\]\s*$/;
+const KEY_VALUE = /^\s*([^=#;\s][^=]*?)\s*=\s*(.*?)\s*$/;
+const COMMENT = /^\s*[#;]/;
+
+export function parseIni(text: string): IniFile {
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  const sections: IniSection[] = [];
+  let current: IniSection | undefined;
+
+  lines.forEach((line, i) => {
+    const header = SECTION_HEADER.exec(line);
+    if (header) {
+      current = { name: header[1].trim(), values: {}, start: i, end: i + 1 };
+      sections.push(current);
+      return;
+    }
+
+    if (current == null || COMMENT.test(line)) return;
+
+    const kv = KEY_VALUE.exec(line);
+    if (kv) {
+      current.values[kv[1]] = kv[2];
+      current.end = i + 1;
+    } else if (line.trim() !== "") {
+      //
+      // A continuation line of a nested value, e.g. under s3 =
+      //
+      current.end = i + 1;
+    }
+  });
+
+  return { lines, sections };
+}
+
+export function formatIni(file: IniFile) {
+  return file.lines.length > 0 ? file.lines.join("\n") + "\n" : "";
+}
+
+export async function readIniFile(filename: string) {
+  return parseIni(await readOptionalFile(filename));
+}
+
+/**
+ * Replaces, appends or (with undefined values) removes one section of an INI
+ * file. Everything outside the section, including comments and formatting,
+ * is left as it was.
+ */
+export function setIniSection(
+  file: IniFile,
+  section: string,
+  values: Record<string, string> | undefined,
+): IniFile {
+  const lines = [...file.lines];
+  const body =
+    values != null
+      ? [
+          `[${section}]`,
+          ...Object.entries(values).map(([key, value]) => `${key} = ${value}`),
+        ]
+      : [];
+
+  const existing = file.sections.find((s) => s.name === section);
+
+  if (existing == null) {
+    if (values == null) return file;
+    if (lines.length > 0 && lines[lines.length - 1].trim() !== "") {
+      lines.push("");
+    }
+    lines.push(...body);
+  } else {
+    let end = existing.end;
+    //
+    // When removing a section, take its trailing blank lines with it.
+    //
+    if (values == null) {
+      while (end < lines.length && lines[end].trim() === "") end++;
+    }
+    lines.splice(existing.start, end - existing.start, ...body);
+  }
+
+  return parseIni(lines.join("\n"));
+}
+
+/**
+ * Copies a file aside before it is modified. Returns the backup filename, or
+ * undefined if the file doesn't exist.
+ */
+export async function backupFile(filename: string) {
+  const backup = `${filename}.opaws-backup-${Date.now()}`;
+  try {
+    await copyFile(filename, backup);
+    return backup;
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+    return undefined;
+  }
+}
+
+/**
+ * Replaces (or appends) one section of an INI file on disk.
+ */
+export async function writeIniSection(
+  filename: string,
+  section: string,
+  values: Record<string, string>,
+) {
+  const file = setIniSection(await readIniFile(filename), section, values);
+  await writeFileAtomic(filename, formatIni(file));
+}
@@ -0,0 +1,428 @@
+import { randomBytes } from "crypto";
+import {
+  link,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
+
+import { Credentials } from "@aws-sdk/client-sts";
+import { z } from "zod";
+
+import { decrypt, encrypt, KEY_BYTES } from "./crypto.js";
+import { logger } from "./logger.js";
+import {
+  fingerprint,
+  isFileExistsError,
+  isFileNotFoundError,
+  OPAWS_CONFIG_DIRECTORY,
+  sanitizeFilename,
+} from "./util.js";
+
+export const CACHE_KEY_FILENAME = join(OPAWS_CONFIG_DIRECTORY, "cache.key");
+
+const CACHE_FILE_PREFIX = "opaws-cache-";
+
+export const cacheEntryKeySchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("session"),
+    source: z.string().optional(),
+    sts: z.string().optional(),
+    opAccount: z.string().optional(),
+    opVault: z.string().optional(),
+    opItem: z.string(),
+  }),
+  z.object({
+    kind: z.literal("role"),
+    source: z.string().optional(),
+    sts: z.string().optional(),
+    opAccount: z.string().optional(),
+    opVault: z.string().optional(),
+    opItem: z.string(),
+    roleArn: z.string(),
+    roleSessionName: z.string().optional(),
+    /** The roles assumed before this one, in order. */
+    via: z.array(z.string()).optional(),
+    /** A fingerprint of the other AssumeRole parameters, if any. */
+    params: z.string().optional(),
+  }),
+]);
+
+export const cachedCredentialsSchema = z.object({
+  AccessKeyId: z.string(),
+  SecretAccessKey: z.string(),
+  SessionToken: z.string(),
+  Expiration: z
+    .string()
+    .datetime()
+    .transform((s) => new Date(s)),
+});
+
+//
+// Which keys the credentials were issued from. Not secret, so kept outside
+// the ciphertext like the entry key.
+//
+export const keyOriginSchema = z.object({
+  keyFingerprint: z.string(),
+  itemId: z.string().optional(),
+  itemVersion: z.number().optional(),
+});
+
+const encryptedCacheSchema = z.object({
+  version: z.literal(1),
+  key: cacheEntryKeySchema,
+  origin: keyOriginSchema.optional(),
+  iv: z.string().base64(),
+  tag: z.string().base64(),
+  data: z.string().base64(),
+});
+
+export type CachedCredentials = z.infer<typeof cachedCredentialsSchema>;
+
+/**
+ * Identifies a cache entry. Stored unencrypted alongside the credentials so
+ * entries can be listed without decrypting them.
+ */
+export type CacheEntryKey = z.infer<typeof cacheEntryKeySchema>;
+
+export type KeyOrigin = z.infer<typeof keyOriginSchema>;
+
+export type CacheEntry = {
+  filename: string;
+  key: CacheEntryKey;
+  origin?: KeyOrigin;
+  expiration?: Date;
+  valid: boolean;
+};
+
+function tmpFile(
+  prefix: string,
+  source: string | undefined,
+  parts: (string | undefined)[],
+  ext?: string,
+) {
+  const key = [
+    prefix,
+    ...(source != null ? [source] : []),
+    ...parts.map((p) => p ?? "default"),
+  ].join("-");
+  return join(tmpdir(), sanitizeFilename(ext ? `${key}.${ext}` : key));
+}
+
+//
+// Entries for the standard STS endpoints keep the names they had before
+// other endpoints were supported.
+//
+function getStsParts(key: CacheEntryKey) {
+  return key.sts != null ? [key.sts] : [];
+}
+
+//
+// Likewise for roles assumed directly, with no other parameters. Chains of
+// ARNs are hashed to keep names short.
+//
+function getChainParts(key: Extract<CacheEntryKey, { kind: "role" }>) {
+  return [
+    ...(key.via != null ? [`via-${fingerprint(JSON.stringify(key.via))}`] : []),
+    ...(key.params != null ? [`params-${key.params}`] : []),
+  ];
+}
+
+export function getCacheFilename(key: CacheEntryKey) {
+  switch (key.kind) {
+    case "session":
+      return tmpFile(
+        "opaws-cache-session",
+        key.source,
+        [key.opAccount, key.opVault, key.opItem, ...getStsParts(key)],
+        "json",
+      );
+    case "role":
+      return tmpFile(
+        "opaws-cache-role",
+        key.source,
+        [
+          key.opAccount,
+          key.opVault,
+          key.opItem,
+          key.roleArn,
+          key.roleSessionName,
+          ...getChainParts(key),
+          ...getStsParts(key),
+        ],
+        "json",
+      );
+  }
+}
+
+export function getSessionLockDirectory(
+  key: Pick<CacheEntryKey, "source" | "opAccount" | "opVault" | "opItem">,
+) {
+  return tmpFile("opaws-lock-session", key.source, [
+    key.opAccount,
+    key.opVault,
+    key.opItem,
+  ]);
+}
+
+//
+// An empty file, whose mtime is when --check-source last found the item's
+// cached credentials were issued from the keys in its source.
+//
+function getSourceCheckFilename(
+  key: Pick<CacheEntryKey, "source" | "opAccount" | "opVault" | "opItem">,
+) {
+  return tmpFile("opaws-checked", key.source, [
+    key.opAccount,
+    key.opVault,
+    key.opItem,
+  ]);
+}
+
+export async function readSourceCheckedAt(
+  key: CacheEntryKey,
+): Promise<number | undefined> {
+  try {
+    return (await stat(getSourceCheckFilename(key))).mtimeMs;
+  } catch (e) {
+    if (isFileNotFoundError(e)) return undefined;
+    throw e;
+  }
+}
+
+export async function writeSourceCheckedAt(key: CacheEntryKey) {
+  await writeFile(getSourceCheckFilename(key), "");
+}
+
+let cacheKey: Buffer | undefined;
+
+async function getCacheKey(): Promise<Buffer> {
+  if (cacheKey) return cacheKey;
+
+  try {
+    cacheKey = await readFile(CACHE_KEY_FILENAME);
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+
+    logger.info(`Generating new cache key`, { filename: CACHE_KEY_FILENAME });
+    await mkdir(dirname(CACHE_KEY_FILENAME), { recursive: true, mode: 0o700 });
+    //
+    // Written aside and linked into place: link fails if the file already
+    // exists, so two processes racing to create the key can't overwrite each
+    // other, and neither can read the other's key half written. The loser
+    // reads the winner's key instead.
+    //
+    const key = randomBytes(KEY_BYTES);
+    const tmp = `${CACHE_KEY_FILENAME}.tmp.${process.pid}`;
+    await writeFile(tmp, key, { mode: 0o600 });
+    try {
+      await link(tmp, CACHE_KEY_FILENAME);
+      cacheKey = key;
+    } catch (e) {
+      if (!isFileExistsError(e)) throw e;
+      cacheKey = await readFile(CACHE_KEY_FILENAME);
+    } finally {
+      await rm(tmp, { force: true });
+    }
+  }
+
+  if (cacheKey.length !== KEY_BYTES) {
+    cacheKey = undefined;
+    throw new Error(
+      `Cache key ${CACHE_KEY_FILENAME} is invalid. Delete it to generate a new one.`,
+    );
+  }
+
+  return cacheKey;
+}
+
+/**
+ * Reads cached credentials, treating them as a miss if they expire within
+ * `refreshBeforeSeconds`.
+ */
+export async function readCachedCredentials(
+  key: CacheEntryKey,
+  refreshBeforeSeconds = 0,
+): Promise<CachedCredentials | undefined> {
+  const filename = getCacheFilename(key);
+
+  let data: string;
+  try {
+    data = (await readFile(filename)).toString();
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+    logger.debug(`No cached credentials found.`, { filename });
+    return undefined;
+  }
+
+  try {
+    //
+    // Any failure here, including a failed GCM authentication check, is
+    // treated as a cache miss. The entry will be overwritten with fresh
+    // credentials.
+    //
+    const envelope = encryptedCacheSchema.parse(JSON.parse(data));
+    const plaintext = decrypt(
+      await getCacheKey(),
+      basename(filename),
+      envelope,
+    );
+    const creds = cachedCredentialsSchema.parse(JSON.parse(plaintext));
+    if (creds.Expiration.getTime() < Date.now()) {
+      logger.info(`Cached credentials expired as of ${creds.Expiration}.`, {
+        filename,
+      });
+      return undefined;
+    }
+    if (creds.Expiration.getTime() - refreshBeforeSeconds * 1000 < Date.now()) {
+      logger.info(`Cached credentials expire soon, at ${creds.Expiration}.`, {
+        filename,
+        refreshBeforeSeconds,
+      });
+      return undefined;
+    }
+    logger.debug(`Found cached credentials`, { filename });
+    return creds;
+  } catch (e) {
+    logger.warn(`Invalid cached credentials.`, e);
+    return undefined;
+  }
+}
+
+export async function writeCachedCredentials(
+  key: CacheEntryKey,
+  creds: Credentials,
+  origin: KeyOrigin | undefined,
+) {
+  const filename = getCacheFilename(key);
+  const envelope = {
+    version: 1,
+    //
+    // Bind the ciphertext to the cache entry name, so an entry can't be
+    // copied over another one and still authenticate.
+    //
+    ...encrypt(await getCacheKey(), basename(filename), JSON.stringify(creds)),
+    key,
+    origin,
+  };
+
+  //
+  // Write to a temp file then rename, so a concurrent reader never sees
+  // a half-written JSON document.
+  //
+  const tmp = `${filename}.tmp.${process.pid}`;
+  await writeFile(tmp, JSON.stringify(envelope, null, 2), { mode: 0o600 });
+  await rename(tmp, filename);
+}
+
+async function readCacheEntry(
+  filename: string,
+): Promise<CacheEntry | undefined> {
+  let envelope: z.infer<typeof encryptedCacheSchema>;
+  try {
+    envelope = encryptedCacheSchema.parse(
+      JSON.parse((await readFile(filename)).toString()),
+    );
+  } catch (e) {
+    logger.debug(`Unreadable cache entry`, { filename, error: e });
+    return undefined;
+  }
+
+  //
+  // The entry key isn't covered by the ciphertext's authentication tag, but
+  // the filename is. An entry whose key doesn't map back to its own filename
+  // has been tampered with or copied.
+  //
+  if (getCacheFilename(envelope.key) !== filename) {
+    return {
+      filename,
+      key: envelope.key,
+      origin: envelope.origin,
+      valid: false,
+    };
+  }
+
+  try {
+    const plaintext = decrypt(
+      await getCacheKey(),
+      basename(filename),
+      envelope,
+    );
+    const creds = cachedCredentialsSchema.parse(JSON.parse(plaintext));
+    return {
+      filename,
+      key: envelope.key,
+      origin: envelope.origin,
+      expiration: creds.Expiration,
+      valid: true,
+    };
+  } catch (e) {
+    logger.debug(`Cache entry failed to decrypt`, { filename, error: e });
+    return {
+      filename,
+      key: envelope.key,
+      origin: envelope.origin,
+      valid: false,
+    };
+  }
+}
+
+/**
+ * Lists cache files in the temp directory. Files that can't be parsed at all
+ * (for example, written by an older version) are omitted.
+ */
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  const files = (await readdir(tmpdir())).filter(
+    (e) => e.startsWith(CACHE_FILE_PREFIX) && e.endsWith(".json"),
+  );
+
+  const entries = await Promise.all(
+    files.map((file) => readCacheEntry(join(tmpdir(), file))),
+  );
+  return entries.filter((e) => e !== undefined);
+}
+
+/**
+ * Reads which keys a cache entry's credentials were issued from, without
+ * decrypting it. Undefined if there's no entry or it predates origins.
+ */
+export async function readCachedOrigin(
+  key: CacheEntryKey,
+): Promise<KeyOrigin | undefined> {
+  const filename = getCacheFilename(key);
+  try {
+    const envelope = encryptedCacheSchema.parse(
+      JSON.parse((await readFile(filename)).toString()),
+    );
+    return envelope.origin;
+  } catch (e) {
+    if (!isFileNotFoundError(e)) {
+      logger.debug(`Unreadable cache entry`, { filename, error: e });
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Whether two keys are for the same item, from the same STS endpoint. The
+ * session and role entries for an item are all issued from the same keys.
+ */
+export function isSameItem(a: CacheEntryKey, b: CacheEntryKey) {
+  return (
+    a.source === b.source &&
+    a.opAccount === b.opAccount &&
+    a.opVault === b.opVault &&
+    a.opItem === b.opItem &&
+    a.sts === b.sts
+  );
+}
+
+export async function removeCacheEntry(entry: CacheEntry) {
+  await rm(entry.filename, { force: true });
+}
@@ -1,26 +1,73 @@
 import { rm, readdir } from "fs/promises";
 import { tmpdir } from "os";
-import { join } from "path";
+import { basename, join } from "path";
 
 import { Command } from "@commander-js/extra-typings";
 
+import { listCacheEntries, removeCacheEntry } from "./cache.js";
+import { LOG_DIRECTORY } from "./logger.js";
+import { RUNS_FILENAME } from "./logs.js";
+
 export const command = new Command("clear")
   .option("-l, --logs", "Clear only OPAWS log files")
   .option("-c, --cache", "Clear only OPAWS cached credentials")
   .option("-f, --lock-file", "Clear only OPAWS lock files")
+  .option(
+    "-i, --op-item <op item>",
+    "Clear only cached credentials for this 1Password item.",
+  )
+  .option(
+    "-v, --op-vault <op vault name>",
+    "Clear only cached credentials for items in this vault.",
+  )
+  .option(
+    "-a, --op-account <op account name>",
+    "Clear only cached credentials for items in this account.",
+  )
+  .option(
+    "-r, --role-arn <role ARN>",
+    "Clear only cached credentials for this role.",
+  )
   .action(async (options) => {
+    //
+    // Any of these narrows the clearing of the cache to the matching
+    // entries, and stops the rest being cleared unless asked for too.
+    //
+    const narrowed =
+      options.opItem != null ||
+      options.opVault != null ||
+      options.opAccount != null ||
+      options.roleArn != null;
+
     const entries = await readdir(tmpdir());
 
-    const all = !options.cache && !options.logs && !options.lockFile;
+    const all =
+      !narrowed && !options.cache && !options.logs && !options.lockFile;
 
     if (options.logs || all) {
-      const logFiles = entries.filter((e) => e.startsWith("opaws-log-"));
-      await Promise.all(logFiles.map((file) => rm(join(tmpdir(), file))));
+      const logFiles = (await readdir(LOG_DIRECTORY)).filter(
+        (e) => e.startsWith("opaws-log-") || e === basename(RUNS_FILENAME),
+      );
+      await Promise.all(logFiles.map((file) => rm(join(LOG_DIRECTORY, file))));
       console.log(`Removed ${logFiles.length} log files.`);
     }
 
-    if (options.cache || all) {
-      const cacheFiles = entries.filter((e) => e.startsWith("opaws-cache-"));
+    if (narrowed) {
+      const matching = (await listCacheEntries()).filter(
+        (e) =>
+          (options.opItem == null || e.key.opItem === options.opItem) &&
+          (options.opVault == null || e.key.opVault === options.opVault) &&
+          (options.opAccount == null ||
+            e.key.opAccount === options.opAccount) &&
+          (options.roleArn == null ||
+            (e.key.kind === "role" && e.key.roleArn === options.roleArn)),
+      );
+      await Promise.all(matching.map(removeCacheEntry));
+      console.log(`Removed ${matching.length} cache files.`);
+    } else if (options.cache || all) {
+      const cacheFiles = entries.filter(
+        (e) => e.startsWith("opaws-cache-") || e.startsWith("opaws-checked-"),
+      );
       await Promise.all(cacheFiles.map((file) => rm(join(tmpdir(), file))));
       console.log(`Removed ${cacheFiles.length} cache files.`);
     }
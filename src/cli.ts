@@ -1,16 +1,53 @@
 import { Command } from "commander";
 
+import { command as agentCommand } from "./agent/index.js";
 import { command as authenticateCommand } from "./authenticate.js";
 import { command as clearCommand } from "./clear.js";
-import { notify } from "./notifier.js";
+import { command as configCommand } from "./config.js";
+import { command as doctorCommand } from "./doctor.js";
+import { command as execCommand } from "./exec.js";
+import { command as importCommand } from "./import.js";
+import { command as locksCommand } from "./locks.js";
+import { command as logsCommand, pruneLogsIfDue } from "./logs.js";
+import { getNotifierBackend, notify } from "./notifier.js";
+import { command as serveCommand } from "./serve.js";
+import { command as keysCommand } from "./sources/file.js";
+import { command as statusCommand } from "./status.js";
+import { command as warmCommand } from "./warm.js";
+import { command as whoamiCommand } from "./whoami.js";
 
-const program = new Command();
+const program = new Command().enablePositionalOptions();
 program.addCommand(authenticateCommand as Command, { isDefault: true });
+program.addCommand(execCommand as Command);
+program.addCommand(serveCommand as Command);
+program.addCommand(agentCommand as Command);
+program.addCommand(warmCommand as Command);
+program.addCommand(whoamiCommand as Command);
 program.addCommand(
   new Command("util")
     .addCommand(clearCommand as Command)
+    .addCommand(statusCommand as Command)
+    .addCommand(locksCommand as Command)
+    .addCommand(logsCommand as Command)
+    .addCommand(configCommand as Command)
+    .addCommand(importCommand as Command)
+    .addCommand(keysCommand as Command)
+    .addCommand(doctorCommand as Command)
     .addCommand(
       new Command("notify").action(async () => {
+        const backend = await getNotifierBackend();
+        if (backend.name === "none") {
+          console.log(
+            "No notification backend is available; notifications are disabled.",
+          );
+          return;
+        }
+
+        const actions = await backend.supportsActions();
+        console.log(
+          `Sending a test notification with ${backend.name}${actions ? "" : " (no action buttons)"}.`,
+        );
+
         const result = await notify({
           title: "OPAWS",
           message: "Test notification",
@@ -18,9 +55,9 @@ program.addCommand(
         });
 
         if (result === undefined) {
-          console.log(
-            "'alerter' is not installed; notifications are disabled.",
-          );
+          console.log("Could not tell whether the notification was shown.");
+        } else if (result.kind === "shown") {
+          console.log("Notification was sent.");
         } else if (result.kind === "action") {
           console.log("Notification was acknowledged 😀");
         } else {
@@ -31,4 +68,6 @@ program.addCommand(
     .description("Administrative utility commands."),
 );
 
+void pruneLogsIfDue();
+
 program.parse(process.argv);
@@ -0,0 +1,273 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { Command } from "@commander-js/extra-typings";
+import timestring from "timestring";
+import { z } from "zod";
+
+import { MFA_PROVIDERS } from "./mfa.js";
+import { SOURCE_NAMES, SourceName } from "./sources/index.js";
+import { OP_FIELD_NAMES } from "./sources/onepassword.js";
+import { isFileNotFoundError, OPAWS_CONFIG_DIRECTORY } from "./util.js";
+
+export function getConfigFilename() {
+  return (
+    process.env.OPAWS_CONFIG ?? join(OPAWS_CONFIG_DIRECTORY, "config.json")
+  );
+}
+
+const durationSchema = z.string().transform((value, ctx) => {
+  try {
+    return timestring(value);
+  } catch {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `"${value}" is not a valid time string`,
+    });
+    return z.NEVER;
+  }
+});
+
+const sourceSchema = z
+  .object({
+    type: z.enum(SOURCE_NAMES as [SourceName, ...SourceName[]]).optional(),
+    opItem: z.string(),
+    opVault: z.string().optional(),
+    opAccount: z.string().optional(),
+    opField: z.record(z.enum(OP_FIELD_NAMES), z.string()).optional(),
+  })
+  .strict();
+
+const profileSchema = sourceSchema
+  .partial()
+  .extend({
+    source: z.string().optional(),
+    extends: z.string().optional(),
+    roleArn: z.string().optional(),
+    roleSessionName: z.string().optional(),
+    viaRole: z.array(z.string()).optional(),
+    externalId: z.string().optional(),
+    sourceIdentity: z.string().optional(),
+    tag: z.record(z.string()).optional(),
+    //
+    // Easier to write as JSON in the file than as a string of JSON.
+    //
+    policy: z
+      .union([z.string(), z.record(z.unknown())])
+      .transform((p) => (typeof p === "string" ? p : JSON.stringify(p)))
+      .optional(),
+    policyArn: z.array(z.string()).optional(),
+    duration: durationSchema.optional(),
+    refreshBefore: durationSchema.optional(),
+    backgroundRefresh: durationSchema.optional(),
+    directRole: z.boolean().optional(),
+    rolesAnywhere: z.boolean().optional(),
+    rolesAnywhereEndpoint: z.string().url().optional(),
+    mfa: z.enum(MFA_PROVIDERS).optional(),
+    mfaCommand: z.string().optional(),
+    stsRegion: z.string().optional(),
+    stsEndpoint: z.string().url().optional(),
+    stsFips: z.boolean().optional(),
+    stsDualstack: z.boolean().optional(),
+    proxy: z.string().url().optional(),
+    checkSource: z.boolean().optional(),
+    checkSourceInterval: durationSchema.optional(),
+    notifyLockWait: z.boolean().optional(),
+  })
+  .strict();
+
+const configSchema = z
+  .object({
+    sources: z.record(sourceSchema).default({}),
+    profiles: z.record(profileSchema).default({}),
+  })
+  .strict();
+
+export type Config = z.infer<typeof configSchema>;
+
+/**
+ * Option values for a profile, after applying its source and any profiles
+ * it extends.
+ */
+export type ResolvedProfile = Omit<
+  z.infer<typeof profileSchema>,
+  "source" | "extends" | "type"
+> & { source?: SourceName };
+
+export class ConfigError extends Error {}
+
+/**
+ * Reads and parses the config file. Synchronous, because it is applied while
+ * commander is parsing options.
+ */
+export function loadConfig(filename = getConfigFilename()): Config {
+  let data: string;
+  try {
+    data = readFileSync(filename).toString();
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+    throw new ConfigError(`Config file ${filename} does not exist.`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch (e) {
+    throw new ConfigError(
+      `Config file ${filename} is not valid JSON: ${(e as Error).message}`,
+    );
+  }
+
+  const parsed = configSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new ConfigError(
+      [
+        `Config file ${filename} is invalid:`,
+        ...parsed.error.issues.map(
+          (i) => `  - ${i.path.join(".") || "(root)"}: ${i.message}`,
+        ),
+      ].join("\n"),
+    );
+  }
+  return parsed.data;
+}
+
+export function resolveProfile(
+  config: Config,
+  name: string,
+  seen: string[] = [],
+): ResolvedProfile {
+  if (seen.includes(name)) {
+    throw new ConfigError(
+      `Profile ${name} extends itself: ${[...seen, name].join(" -> ")}`,
+    );
+  }
+
+  const profile = config.profiles[name];
+  if (profile == null) {
+    throw new ConfigError(`Profile ${name} is not defined.`);
+  }
+
+  const { source: sourceName, extends: parentName, ...own } = profile;
+
+  const parent =
+    parentName != null
+      ? resolveProfile(config, parentName, [...seen, name])
+      : {};
+
+  let source: z.infer<typeof sourceSchema> | undefined;
+  if (sourceName != null) {
+    source = config.sources[sourceName];
+    if (source == null) {
+      throw new ConfigError(
+        `Profile ${name} uses source ${sourceName}, which is not defined.`,
+      );
+    }
+  }
+
+  //
+  // "type" names the kind of secret source, which is the --source option.
+  // "source" in the config file names one of its sources instead.
+  //
+  const toOptions = ({
+    type,
+    ...rest
+  }: Omit<z.infer<typeof profileSchema>, "source" | "extends">) =>
+    Object.fromEntries(
+      Object.entries({ ...rest, source: type }).filter(
+        ([, v]) => v !== undefined,
+      ),
+    ) as ResolvedProfile;
+
+  const resolved: ResolvedProfile = {
+    ...parent,
+    ...(source != null ? toOptions(source) : {}),
+    ...toOptions(own),
+  };
+  resolved.opField = {
+    ...parent.opField,
+    ...source?.opField,
+    ...own.opField,
+  };
+  resolved.tag = { ...parent.tag, ...own.tag };
+  return resolved;
+}
+
+/**
+ * Returns a list of problems with the config: references to missing sources
+ * or profiles, inheritance cycles, and profiles with no 1Password item.
+ */
+export function validateConfig(config: Config): string[] {
+  const problems: string[] = [];
+
+  for (const name of Object.keys(config.profiles)) {
+    try {
+      const profile = resolveProfile(config, name);
+      if (profile.opItem == null) {
+        problems.push(
+          `Profile ${name} has no opItem, either directly or from a source.`,
+        );
+      }
+    } catch (e) {
+      if (!(e instanceof ConfigError)) throw e;
+      problems.push(e.message);
+    }
+  }
+
+  return problems;
+}
+
+type ProfileTarget = {
+  getOptionValueSource(key: string): string | undefined;
+  setOptionValueWithSource(key: string, value: unknown, source: "config"): void;
+  error(message: string): never;
+};
+
+/**
+ * Applies a profile's values to a command's options, except for those given
+ * explicitly on the command line.
+ */
+export function applyProfile(command: ProfileTarget, name: string) {
+  let profile: ResolvedProfile;
+  try {
+    profile = resolveProfile(loadConfig(), name);
+  } catch (e) {
+    if (!(e instanceof ConfigError)) throw e;
+    command.error(`error: ${e.message}`);
+  }
+
+  for (const [key, value] of Object.entries(profile)) {
+    if (value === undefined) continue;
+    if (command.getOptionValueSource(key) === "cli") continue;
+    command.setOptionValueWithSource(key, value, "config");
+  }
+}
+
+export const command = new Command("config")
+  .description("Commands for the opaws config file.")
+  .addCommand(
+    new Command("validate")
+      .argument("[file]", "Config file to validate.", getConfigFilename())
+      .description("Checks the config file for errors.")
+      .action((file) => {
+        let config: Config;
+        try {
+          config = loadConfig(file);
+        } catch (e) {
+          if (!(e instanceof ConfigError)) throw e;
+          console.error(e.message);
+          process.exit(1);
+        }
+
+        const problems = validateConfig(config);
+        if (problems.length > 0) {
+          console.error(`Config file ${file} has problems:`);
+          problems.forEach((p) => console.error(`  - ${p}`));
+          process.exit(1);
+        }
+
+        console.log(
+          `Config file ${file} is valid: ${Object.keys(config.sources).length} sources, ${Object.keys(config.profiles).length} profiles.`,
+        );
+      }),
+  );
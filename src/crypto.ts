@@ -0,0 +1,71 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import { promisify } from "util";
+
+const CIPHER = "aes-256-gcm";
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+export const KEY_BYTES = 32;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+export type EncryptedData = {
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+/**
+ * Encrypts with AES-256-GCM. The additional authenticated data isn't stored,
+ * but must be the same when decrypting; use it to bind the ciphertext to
+ * where it is kept.
+ */
+export function encrypt(
+  key: Buffer,
+  aad: string,
+  plaintext: string,
+): EncryptedData {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const data = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypts data from encrypt. Throws if the key or additional authenticated
+ * data is wrong, or the data has been modified.
+ */
+export function decrypt(key: Buffer, aad: string, encrypted: EncryptedData) {
+  const decipher = createDecipheriv(
+    CIPHER,
+    key,
+    Buffer.from(encrypted.iv, "base64"),
+  );
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted.data, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+export function generateSalt() {
+  return randomBytes(SALT_BYTES).toString("base64");
+}
+
+export async function deriveKey(passphrase: string, salt: string) {
+  return scryptAsync(passphrase, Buffer.from(salt, "base64"), KEY_BYTES);
+}
@@ -0,0 +1,479 @@
+import { X509Certificate } from "crypto";
+import { constants, existsSync } from "fs";
+import { access, chmod, mkdtemp, rm } from "fs/promises";
+import { homedir, tmpdir } from "os";
+import { delimiter, dirname, join } from "path";
+
+import op, { ListAccount } from "@1password/op-js";
+import { Command } from "@commander-js/extra-typings";
+
+import { ConfigError, getConfigFilename, loadConfig } from "./config.js";
+import { classifyError } from "./errors.js";
+import { listLocks } from "./lock.js";
+import { LOG_DIRECTORY } from "./logger.js";
+import { getNotifierBackend } from "./notifier.js";
+import { alerter } from "./notifiers/alerter.js";
+import {
+  get1pAwsKeys,
+  get1pRolesAnywhereCertificate,
+  OpFieldMapping,
+  parseOpFieldMapping,
+} from "./sources/onepassword.js";
+import { formatDuration, quoteShellArg, writeFileAtomic } from "./util.js";
+
+//
+// Checks for the environment problems behind most failures: a missing or
+// unreachable 1Password CLI, items without the right fields, notifications
+// that can't be shown, a wrong clock, and leftovers from earlier runs.
+//
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+type CheckResult = {
+  check: string;
+  status: CheckStatus;
+  message: string;
+  fix?: string;
+};
+
+type DoctorOptions = {
+  opItem?: string;
+  opVault?: string;
+  opAccount?: string;
+  opField?: OpFieldMapping;
+  rolesAnywhere?: boolean;
+};
+
+//
+// The PATH that macOS gives applications started from the Dock or Finder,
+// which don't read shell profiles.
+//
+const GUI_PATH = ["/usr/bin", "/bin", "/usr/sbin", "/sbin"];
+
+//
+// AWS rejects requests signed more than 5 minutes off. MFA codes from the
+// item's seed are generated with the local clock, so a much smaller error
+// gets them rejected.
+//
+const MAX_REQUEST_SKEW_MS = 5 * 60 * 1000;
+const MAX_TOTP_SKEW_MS = 15 * 1000;
+const CLOCK_CHECK_URL = "https://sts.amazonaws.com";
+const CLOCK_CHECK_TIMEOUT_MS = 5000;
+
+//
+// Warn of certificates expiring soon, while there's time to get another.
+//
+const CERTIFICATE_WARN_MS = 30 * 24 * 60 * 60 * 1000;
+
+const WRAPPER_FILENAME = join(homedir(), ".aws", "opaws-wrapper.sh");
+
+async function findOnPath(bin: string) {
+  const names =
+    process.platform === "win32" ? [`${bin}.exe`, `${bin}.cmd`] : [bin];
+  for (const dir of (process.env.PATH ?? "").split(delimiter)) {
+    for (const name of names) {
+      const candidate = join(dir, name);
+      try {
+        await access(candidate, constants.X_OK);
+        return candidate;
+      } catch {
+        // Not here; keep looking.
+      }
+    }
+  }
+  return undefined;
+}
+
+async function checkOpCli(): Promise<CheckResult> {
+  const check = "1Password CLI";
+  try {
+    await op.validateCli();
+  } catch (e) {
+    return {
+      check,
+      status: "fail",
+      message: (e as Error).message,
+      fix: "Install or update the 1Password CLI: https://developer.1password.com/docs/cli/get-started/",
+    };
+  }
+  const path = await findOnPath("op");
+  return {
+    check,
+    status: "pass",
+    message: `op ${op.version()}${path != null ? ` at ${path}` : ""}`,
+  };
+}
+
+async function checkGuiPath(): Promise<CheckResult> {
+  const check = "PATH for GUI applications";
+  const opPath = await findOnPath("op");
+  const missing = [dirname(process.execPath), opPath && dirname(opPath)].filter(
+    (dir): dir is string => dir != null && !GUI_PATH.includes(dir),
+  );
+  if (missing.length === 0) {
+    return { check, status: "pass", message: "node and op are on it" };
+  }
+  return {
+    check,
+    status: "warn",
+    message: `${[...new Set(missing)].join(", ")} isn't on the PATH that applications started from the Dock get, so they can't run opaws`,
+    fix: `Run \`opaws util doctor --write-wrapper\` and use the wrapper in credential_process.`,
+  };
+}
+
+function checkAccounts(options: DoctorOptions): CheckResult {
+  const check = "1Password accounts";
+  let accounts: ListAccount[];
+  try {
+    accounts = op.account.list();
+  } catch (e) {
+    return { check, status: "fail", message: (e as Error).message };
+  }
+
+  const names = accounts.map((a) => a.shorthand ?? a.url);
+  if (accounts.length === 0) {
+    return {
+      check,
+      status: "fail",
+      message: "The 1Password CLI knows no accounts",
+      fix: "Turn on Integrate with 1Password CLI in the 1Password app's Developer settings, or add an account with `op account add`.",
+    };
+  }
+
+  //
+  // The op CLI reads OP_ACCOUNT itself when --account isn't given.
+  //
+  const account = options.opAccount ?? process.env.OP_ACCOUNT;
+  if (account != null) {
+    const found = accounts.some((a) =>
+      [a.shorthand, a.url, a.email, a.account_uuid, a.user_uuid].includes(
+        account,
+      ),
+    );
+    return found
+      ? { check, status: "pass", message: `Using ${account}` }
+      : {
+          check,
+          status: "fail",
+          message: `No account ${account}; there are ${names.join(", ")}`,
+          fix: "Give --op-account one of the accounts' shorthands, URLs, emails or IDs.",
+        };
+  }
+
+  if (accounts.length > 1) {
+    return {
+      check,
+      status: "warn",
+      message: `There are ${accounts.length} accounts (${names.join(", ")}), and without one given, op uses the last one signed in to`,
+      fix: "Give --op-account, or opAccount in the opaws profile.",
+    };
+  }
+  return { check, status: "pass", message: names[0] };
+}
+
+function checkItem(options: DoctorOptions & { opItem: string }): CheckResult {
+  const check = `Item ${options.opItem}`;
+  let keys;
+  try {
+    keys = get1pAwsKeys(options);
+  } catch (e) {
+    const error = classifyError(e);
+    return { check, status: "fail", message: error.message, fix: error.hint };
+  }
+
+  if (keys.mfaSerial != null && keys.totp == null) {
+    return {
+      check,
+      status: "warn",
+      message: "It has an MFA serial but no one-time password",
+      fix: "Add the MFA device's seed as a one-time password, or give --mfa-command to get codes elsewhere.",
+    };
+  }
+  return {
+    check,
+    status: "pass",
+    message:
+      keys.mfaSerial != null ? "Keys and MFA device found" : "Keys found",
+  };
+}
+
+function checkCertificateItem(
+  options: DoctorOptions & { opItem: string },
+): CheckResult {
+  const check = `Item ${options.opItem}`;
+  let validTo;
+  try {
+    const certificate = get1pRolesAnywhereCertificate(options);
+    validTo = new Date(new X509Certificate(certificate.certificate).validTo);
+  } catch (e) {
+    const error = classifyError(e);
+    return { check, status: "fail", message: error.message, fix: error.hint };
+  }
+
+  const remainingMs = validTo.getTime() - Date.now();
+  const fix =
+    "Issue a new certificate from the trust anchor's CA, and update the item.";
+  if (remainingMs <= 0) {
+    return {
+      check,
+      status: "fail",
+      message: `The certificate expired on ${validTo.toISOString()}`,
+      fix,
+    };
+  }
+  if (remainingMs < CERTIFICATE_WARN_MS) {
+    return {
+      check,
+      status: "warn",
+      message: `The certificate expires in ${formatDuration(remainingMs)}`,
+      fix,
+    };
+  }
+  return {
+    check,
+    status: "pass",
+    message: `Certificate found, valid until ${validTo.toISOString()}`,
+  };
+}
+
+async function checkNotifications(): Promise<CheckResult> {
+  const check = "Notifications";
+  const backend = await getNotifierBackend();
+
+  if (backend.name === "none") {
+    return {
+      check,
+      status: "warn",
+      message:
+        "No way to show notifications was found, so failures of credential_process go unseen",
+      fix:
+        process.platform === "darwin"
+          ? "Install alerter: brew install vjeantet/tap/alerter"
+          : "Install notify-send (libnotify), or make sure gdbus is on the PATH.",
+    };
+  }
+  if (process.platform === "darwin" && !(await alerter.isAvailable())) {
+    return {
+      check,
+      status: "warn",
+      message: `Using ${backend.name}, whose notifications have no buttons or reply fields`,
+      fix: "Install alerter: brew install vjeantet/tap/alerter",
+    };
+  }
+  return { check, status: "pass", message: `Using ${backend.name}` };
+}
+
+async function checkClock(): Promise<CheckResult> {
+  const check = "Clock";
+  let skewMs: number;
+  try {
+    const start = Date.now();
+    const response = await fetch(CLOCK_CHECK_URL, {
+      method: "HEAD",
+      signal: AbortSignal.timeout(CLOCK_CHECK_TIMEOUT_MS),
+    });
+    const end = Date.now();
+    const date = response.headers.get("date");
+    if (date == null) throw new Error("The response had no Date header");
+    skewMs = (start + end) / 2 - new Date(date).getTime();
+  } catch (e) {
+    return {
+      check,
+      status: "warn",
+      message: `Could not compare the clock with ${CLOCK_CHECK_URL}: ${(e as Error).message}`,
+    };
+  }
+
+  const seconds = Math.round(skewMs / 1000);
+  const message = `${Math.abs(seconds)}s ${seconds < 0 ? "behind" : "ahead of"} AWS`;
+  const fix = "Turn on automatic time synchronisation.";
+  if (Math.abs(skewMs) > MAX_REQUEST_SKEW_MS) {
+    return { check, status: "fail", message, fix };
+  }
+  if (Math.abs(skewMs) > MAX_TOTP_SKEW_MS) {
+    return {
+      check,
+      status: "warn",
+      message: `${message}, enough for MFA codes to be rejected`,
+      fix,
+    };
+  }
+  return { check, status: "pass", message };
+}
+
+async function checkWritable(
+  check: string,
+  dir: string,
+  fix: string,
+): Promise<CheckResult> {
+  try {
+    await rm(await mkdtemp(join(dir, "opaws-doctor-")), { recursive: true });
+    return { check, status: "pass", message: dir };
+  } catch (e) {
+    return {
+      check,
+      status: "fail",
+      message: `Can't write to ${dir}: ${(e as Error).message}`,
+      fix,
+    };
+  }
+}
+
+async function checkLocks(): Promise<CheckResult> {
+  const check = "Locks";
+  const locks = await listLocks();
+  const stale = locks.filter((l) => l.state !== "held");
+  if (stale.length > 0) {
+    return {
+      check,
+      status: "warn",
+      message: `${stale.length} of ${locks.length} locks are left by processes that died or hung`,
+      fix: "Run `opaws util locks break --stale`. Processes waiting for them take them over anyway.",
+    };
+  }
+  return { check, status: "pass", message: `${locks.length} held` };
+}
+
+function checkConfig(): CheckResult {
+  const check = "Config file";
+  if (!existsSync(getConfigFilename())) {
+    return { check, status: "pass", message: "None; it's optional" };
+  }
+  try {
+    const config = loadConfig();
+    return {
+      check,
+      status: "pass",
+      message: `${Object.keys(config.profiles).length} profiles in ${getConfigFilename()}`,
+    };
+  } catch (e) {
+    if (!(e instanceof ConfigError)) throw e;
+    return {
+      check,
+      status: "fail",
+      message: e.message,
+      fix: "Fix the file. `opaws util config validate` lists its errors.",
+    };
+  }
+}
+
+async function runChecks(options: DoctorOptions) {
+  const results: CheckResult[] = [];
+
+  const opCli = await checkOpCli();
+  results.push(opCli);
+  if (process.platform === "darwin") results.push(await checkGuiPath());
+  if (opCli.status === "pass") {
+    results.push(checkAccounts(options));
+    if (options.opItem != null) {
+      const item = { ...options, opItem: options.opItem };
+      results.push(
+        options.rolesAnywhere ? checkCertificateItem(item) : checkItem(item),
+      );
+    }
+  }
+
+  results.push(await checkNotifications());
+  results.push(await checkClock());
+  results.push(
+    await checkWritable(
+      "Temp directory",
+      tmpdir(),
+      "Set TMPDIR to a directory you can write to. The cache and locks are kept there.",
+    ),
+  );
+  if (LOG_DIRECTORY !== tmpdir()) {
+    results.push(
+      await checkWritable(
+        "Log directory",
+        LOG_DIRECTORY,
+        "Set OPAWS_LOG_DIR to a directory you can write to.",
+      ),
+    );
+  }
+  results.push(await checkLocks());
+  results.push(checkConfig());
+
+  return results;
+}
+
+/**
+ * Writes the wrapper script described in the README, which adds the
+ * directories of node, op and opaws to the PATH that GUI applications get.
+ */
+async function writeWrapper(filename: string) {
+  const dirs = [
+    dirname(process.execPath),
+    await findOnPath("op"),
+    await findOnPath("opaws"),
+  ]
+    .filter((p): p is string => p != null)
+    .map((p, i) => (i === 0 ? p : dirname(p)));
+
+  await writeFileAtomic(
+    filename,
+    [
+      "#!/bin/sh",
+      "",
+      `export PATH=$PATH:${[...new Set(dirs)].map(quoteShellArg).join(":")}`,
+      `exec opaws "$@"`,
+      "",
+    ].join("\n"),
+  );
+  await chmod(filename, 0o700);
+}
+
+export const command = new Command("doctor")
+  .option(
+    "-i, --op-item <op item>",
+    "Also check that this 1Password item has the fields opaws needs.",
+  )
+  .option("-v, --op-vault <op vault>", "The item's vault.")
+  .option("-a, --op-account <op account>", "The 1Password account to use.")
+  .option(
+    "--op-field <field=selector>",
+    "Where a value is found in the item, as for authenticate. Repeatable.",
+    parseOpFieldMapping,
+    {} as OpFieldMapping,
+  )
+  .option(
+    "--roles-anywhere",
+    "The item holds an IAM Roles Anywhere certificate rather than access keys.",
+  )
+  .option(
+    "--write-wrapper [filename]",
+    `Write a wrapper script that runs opaws with the PATH it needs, for GUI applications. The default is ${WRAPPER_FILENAME}.`,
+  )
+  .option("--json", "Output the results as JSON.")
+  .description(
+    "Checks for common problems with the environment opaws runs in, and suggests fixes.",
+  )
+  .action(async (options) => {
+    if (options.writeWrapper != null) {
+      const filename =
+        options.writeWrapper === true ? WRAPPER_FILENAME : options.writeWrapper;
+      await writeWrapper(filename);
+      console.log(`Wrote ${filename}. Use it in ~/.aws/config like this:`);
+      console.log(
+        `  credential_process=${quoteShellArg(filename)} --op-item "My Item Name"`,
+      );
+      return;
+    }
+
+    const results = await runChecks(options);
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      for (const result of results) {
+        console.log(
+          `${result.status.padEnd(4)}  ${result.check}: ${result.message}`,
+        );
+        if (result.status !== "pass" && result.fix != null) {
+          console.log(`      ${result.fix}`);
+        }
+      }
+    }
+
+    if (results.some((r) => r.status === "fail")) process.exit(1);
+  });
@@ -0,0 +1,172 @@
+//
+// The failures opaws knows how to explain. Each has its own exit code, so
+// wrappers can react to them, and a hint shown on the console and in the
+// notification. The exit codes are documented in the README; don't change
+// them.
+//
+export const ERROR_KINDS = {
+  unknown: {
+    exitCode: 1,
+    hint: undefined,
+  },
+  "op-cli-missing": {
+    exitCode: 10,
+    hint: "Install the 1Password CLI (https://developer.1password.com/docs/cli/get-started/) and make sure `op` is on the PATH of whatever runs opaws.",
+  },
+  "op-not-signed-in": {
+    exitCode: 11,
+    hint: "Sign in with `op signin`, or turn on CLI integration in the 1Password app's Developer settings. If you dismissed an authorization prompt, try again.",
+  },
+  "op-item-not-found": {
+    exitCode: 12,
+    hint: "Check --op-item, and --op-vault and --op-account if given. `op item list` shows the items you can see.",
+  },
+  "op-item-ambiguous": {
+    exitCode: 13,
+    hint: "More than one item matches --op-item. Use the item's ID instead, or give --op-vault.",
+  },
+  "item-schema": {
+    exitCode: 14,
+    hint: "Add the missing fields to the item, or map them to its fields with --op-field.",
+  },
+  "aws-key-invalid": {
+    exitCode: 20,
+    hint: "AWS doesn't accept the access key: it may have been deleted or deactivated, or the secret doesn't match it. Create a new key in IAM and update the item.",
+  },
+  "aws-token-expired": {
+    exitCode: 21,
+    hint: "The session used to assume the role had expired. Try again; if it keeps happening, run `opaws util clear --cache`.",
+  },
+  "mfa-invalid": {
+    exitCode: 22,
+    hint: "Check that the MFA seed in the item belongs to the device in its MFA serial, and that the system clock is correct.",
+  },
+  "role-trust-denied": {
+    exitCode: 23,
+    hint: "The role's trust policy doesn't let your IAM user assume it, or the user isn't allowed sts:AssumeRole. If the role requires MFA, the item needs an MFA device.",
+  },
+  "clock-skew": {
+    exitCode: 24,
+    hint: "AWS rejected the request because the system clock is wrong. Turn on automatic time synchronisation and try again.",
+  },
+  "mfa-unavailable": {
+    exitCode: 25,
+    hint: "The item has an MFA serial but no one-time password seed. Give --mfa-command to get the code from another program, or run opaws where it can ask for the code: in a terminal, or on macOS with alerter installed.",
+  },
+  "identity-mismatch": {
+    exitCode: 26,
+    hint: "The credentials belong to a different account or principal than expected. Check the item and --role-arn, or the --expect-account and --expect-arn of whoami.",
+  },
+  "role-duration-exceeded": {
+    exitCode: 27,
+    hint: "The role's maximum session duration is shorter than --duration. Ask for less, or raise the role's maximum session duration in IAM, up to 12 hours.",
+  },
+  "roles-anywhere-denied": {
+    exitCode: 28,
+    hint: "IAM Roles Anywhere didn't accept the certificate. Check that it hasn't expired, that it was issued by the trust anchor's CA (add intermediates to the item's certificate chain), that the trust anchor and profile are enabled, and that the role trusts rolesanywhere.amazonaws.com.",
+  },
+  "lock-timeout": {
+    exitCode: 30,
+    hint: "Another opaws process held the lock too long, perhaps waiting on a 1Password prompt. Answer the prompt, or if the holder is stuck, list locks with `opaws util locks` and break it with `opaws util locks break`.",
+  },
+} as const satisfies Record<string, { exitCode: number; hint?: string }>;
+
+export type ErrorKind = keyof typeof ERROR_KINDS;
+
+export class OpawsError extends Error {
+  constructor(
+    readonly kind: ErrorKind,
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "OpawsError";
+  }
+
+  get exitCode(): number {
+    return ERROR_KINDS[this.kind].exitCode;
+  }
+
+  get hint(): string | undefined {
+    return ERROR_KINDS[this.kind].hint;
+  }
+}
+
+//
+// Patterns matched against the messages of errors thrown by other code: the
+// 1Password CLI (via op-js) and the AWS SDK.
+//
+const MESSAGE_PATTERNS: [RegExp, ErrorKind][] = [
+  [/spawnSync op ENOENT|Could not find `op` executable/, "op-cli-missing"],
+  [
+    /not currently signed in|account is not signed in|authorization prompt dismissed/i,
+    "op-not-signed-in",
+  ],
+  [/More than one item matches/, "op-item-ambiguous"],
+  [/isn't an item|isn't a vault/, "op-item-not-found"],
+  [/MultiFactorAuthentication failed/, "mfa-invalid"],
+  [/Signature expired|time too skewed/i, "clock-skew"],
+  [/not authorized to perform: sts:AssumeRole/, "role-trust-denied"],
+  [/DurationSeconds exceeds the MaxSessionDuration/, "role-duration-exceeded"],
+];
+
+//
+// AWS error codes, from the Code or name of an SDK exception.
+//
+const AWS_ERROR_CODES: Record<string, ErrorKind> = {
+  InvalidClientTokenId: "aws-key-invalid",
+  SignatureDoesNotMatch: "aws-key-invalid",
+  ExpiredToken: "aws-token-expired",
+  ExpiredTokenException: "aws-token-expired",
+  RequestExpired: "clock-skew",
+  RequestTimeTooSkewed: "clock-skew",
+};
+
+//
+// Guards against causes that refer back to themselves.
+//
+const MAX_CAUSE_DEPTH = 10;
+
+function getAwsErrorCode(e: Error) {
+  return "Code" in e && typeof e.Code === "string" ? e.Code : e.name;
+}
+
+/**
+ * Works out which kind of failure an error represents. Errors already
+ * classified are returned as they are; anything unrecognised is "unknown".
+ */
+export function classifyError(e: unknown): OpawsError {
+  if (e instanceof OpawsError) return e;
+
+  const message = e instanceof Error ? e.message : String(e);
+  const byMessage = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  const byCode =
+    e instanceof Error ? AWS_ERROR_CODES[getAwsErrorCode(e)] : undefined;
+
+  //
+  // Message patterns go first: a SignatureDoesNotMatch saying the signature
+  // expired is a clock problem, not a bad key.
+  //
+  return new OpawsError(byMessage?.[1] ?? byCode ?? "unknown", message, {
+    cause: e,
+  });
+}
+
+/**
+ * The stacks of an error and of each error in its cause chain, for the
+ * debug log. classifyError keeps only a message, which isn't enough to
+ * diagnose failures it doesn't recognise.
+ */
+export function getErrorStacks(e: unknown): string[] {
+  const stacks: string[] = [];
+  let cause = e;
+  for (let depth = 0; cause != null && depth < MAX_CAUSE_DEPTH; depth++) {
+    stacks.push(
+      cause instanceof Error
+        ? (cause.stack ?? `${cause.name}: ${cause.message}`)
+        : String(cause),
+    );
+    cause = cause instanceof Error ? cause.cause : undefined;
+  }
+  return stacks;
+}
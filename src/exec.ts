@@ -0,0 +1,101 @@
+import { spawn } from "child_process";
+import { constants } from "os";
+
+import {
+  createCredentialCommand,
+  getOrFetchCredentials,
+  reportFailure,
+} from "./authenticate.js";
+import { credentialsToEnv } from "./format.js";
+import { configureDebugLogging, logger } from "./logger.js";
+import { finishRun } from "./logs.js";
+
+const CREDENTIAL_ENV_VARS = [
+  "AWS_ACCESS_KEY_ID",
+  "AWS_SECRET_ACCESS_KEY",
+  "AWS_SESSION_TOKEN",
+];
+
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ["SIGTERM", "SIGHUP"];
+const IGNORED_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGQUIT"];
+
+export const command = createCredentialCommand("exec")
+  .argument("<command>", "Command to run.")
+  .argument("[args...]", "Arguments to the command.")
+  .option(
+    "--region <region>",
+    "Also set AWS_REGION and AWS_DEFAULT_REGION in the environment.",
+  )
+  .option(
+    "-f, --force",
+    "Run even if AWS credentials are already present in the environment.",
+  )
+  .passThroughOptions()
+  .description(
+    "Runs a command with AWS credentials set in its environment variables.",
+  )
+  .action(async (cmd, args, options) => {
+    if (options.debug) {
+      configureDebugLogging();
+    }
+
+    const present = CREDENTIAL_ENV_VARS.filter((v) => process.env[v]);
+    if (present.length > 0 && !options.force) {
+      console.error(
+        `AWS credentials are already set in the environment (${present.join(", ")}). Use --force to replace them.`,
+      );
+      process.exit(1);
+    }
+
+    let env: NodeJS.ProcessEnv;
+    try {
+      const creds = await getOrFetchCredentials(options);
+      env = { ...process.env, ...credentialsToEnv(creds) };
+      if (options.region != null) {
+        env.AWS_REGION = options.region;
+        env.AWS_DEFAULT_REGION = options.region;
+      }
+    } catch (e) {
+      const exitCode = await reportFailure(e);
+      await finishRun("exec", options, e);
+      process.exit(exitCode);
+    }
+    await finishRun("exec", options);
+
+    logger.info(`Running command`, { cmd, args });
+
+    const child = spawn(cmd, args, { env, stdio: "inherit" });
+
+    //
+    // The child shares our terminal, so Ctrl-C and Ctrl-\ already reach it
+    // through the process group. Sending them again would look like a second
+    // Ctrl-C, which tools such as terraform take as a demand to stop without
+    // cleaning up; we only stay alive until the child exits. SIGTERM and
+    // SIGHUP are usually sent to our pid alone, e.g. by a supervisor, so are
+    // forwarded.
+    //
+    const forward = (signal: NodeJS.Signals) => child.kill(signal);
+    const ignore = () => {};
+    FORWARDED_SIGNALS.forEach((s) => process.on(s, forward));
+    IGNORED_SIGNALS.forEach((s) => process.on(s, ignore));
+
+    child.on("error", (e) => {
+      console.error(`Failed to run ${cmd}: ${e.message}`);
+      logger.debug(e);
+      process.exit(127);
+    });
+
+    child.on("exit", (code, signal) => {
+      FORWARDED_SIGNALS.forEach((s) => process.off(s, forward));
+      IGNORED_SIGNALS.forEach((s) => process.off(s, ignore));
+
+      if (signal != null) {
+        logger.info(`Command terminated by ${signal}`);
+        process.kill(process.pid, signal);
+        process.exit(128 + (constants.signals[signal] ?? 0));
+      }
+
+      logger.info(`Command exited with code ${code}`);
+      process.exit(code ?? 1);
+    });
+  });
@@ -0,0 +1,86 @@
+import { Credentials } from "@aws-sdk/client-sts";
+
+import { CachedCredentials } from "./cache.js";
+
+export const OUTPUT_FORMATS = [
+  "credential-process",
+  "bash",
+  "zsh",
+  "fish",
+  "powershell",
+  "dotenv",
+  "credentials-file",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * The standard AWS environment variables for a set of credentials.
+ */
+export function credentialsToEnv(
+  creds: CachedCredentials | Credentials,
+): Record<string, string> {
+  const env: Record<string, string> = {
+    AWS_ACCESS_KEY_ID: creds.AccessKeyId!,
+    AWS_SECRET_ACCESS_KEY: creds.SecretAccessKey!,
+    AWS_SESSION_TOKEN: creds.SessionToken!,
+  };
+  if (creds.Expiration != null) {
+    env.AWS_CREDENTIAL_EXPIRATION = creds.Expiration.toISOString();
+  }
+  return env;
+}
+
+/**
+ * The keys for a profile section in ~/.aws/credentials.
+ */
+export function credentialsToProfile(
+  creds: CachedCredentials | Credentials,
+): Record<string, string> {
+  return {
+    aws_access_key_id: creds.AccessKeyId!,
+    aws_secret_access_key: creds.SecretAccessKey!,
+    aws_session_token: creds.SessionToken!,
+  };
+}
+
+function singleQuote(value: string, escapedQuote: string) {
+  return `'${value.replaceAll("'", escapedQuote)}'`;
+}
+
+const envRenderers: Record<
+  Exclude<OutputFormat, "credential-process" | "credentials-file">,
+  (name: string, value: string) => string
+> = {
+  bash: (name, value) => `export ${name}=${singleQuote(value, `'\\''`)}`,
+  zsh: (name, value) => `export ${name}=${singleQuote(value, `'\\''`)}`,
+  fish: (name, value) =>
+    `set -gx ${name} '${value.replaceAll("\\", "\\\\").replaceAll("'", "\\'")}'`,
+  powershell: (name, value) => `$env:${name} = ${singleQuote(value, "''")}`,
+  dotenv: (name, value) =>
+    `${name}="${value.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`,
+};
+
+/**
+ * Renders credentials for printing to stdout. The credentials-file format
+ * isn't printed, so isn't handled here.
+ */
+export function renderCredentials(
+  creds: CachedCredentials | Credentials,
+  format: Exclude<OutputFormat, "credentials-file">,
+) {
+  if (format === "credential-process") {
+    return JSON.stringify(
+      {
+        ...creds,
+        Version: 1,
+      },
+      null,
+      2,
+    );
+  }
+
+  return Object.entries(credentialsToEnv(creds))
+    .map(([name, value]) => envRenderers[format](name, value))
+    .join("\n");
+}
@@ -0,0 +1,396 @@
+import op from "@1password/op-js";
+import { Command } from "@commander-js/extra-typings";
+
+import {
+  backupFile,
+  configSectionName,
+  formatIni,
+  getAwsConfigFilename,
+  getAwsCredentialsFilename,
+  IniFile,
+  profileFromConfigSection,
+  readIniFile,
+  setIniSection,
+} from "./awsfiles.js";
+import { classifyError } from "./errors.js";
+import { logger } from "./logger.js";
+import { create1pAwsItem } from "./sources/onepassword.js";
+import { diffLines, quoteShellArg, writeFileAtomic } from "./util.js";
+
+type ImportOptions = {
+  opVault?: string;
+  opAccount?: string;
+  itemPrefix: string;
+  opawsCommand: string;
+};
+
+type ImportedItem = {
+  title: string;
+  profile: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  mfaSerial?: string;
+};
+
+type ImportPlan = {
+  items: ImportedItem[];
+  rewritten: { profile: string; credentialProcess: string }[];
+  skipped: { profile: string; reason: string }[];
+  warnings: string[];
+  config: IniFile;
+  credentials: IniFile;
+};
+
+//
+// Keys that opaws takes over from the AWS SDK when a profile is rewritten.
+//
+const REPLACED_KEYS = [
+  "aws_access_key_id",
+  "aws_secret_access_key",
+  "aws_session_token",
+  "source_profile",
+  "role_arn",
+  "role_session_name",
+  "duration_seconds",
+  "mfa_serial",
+  "external_id",
+  "source_identity",
+];
+
+//
+// Lines of the AWS files holding keys, masked in dry-run diffs the way
+// printPlan shows them.
+//
+const KEY_LINE =
+  /^(\s*(aws_access_key_id|aws_secret_access_key|aws_session_token)\s*=\s*)(.*?)\s*$/;
+
+function maskKeys(text: string) {
+  return text
+    .split("\n")
+    .map((line) => {
+      const match = KEY_LINE.exec(line);
+      if (match == null) return line;
+      const [, prefix, key, value] = match;
+      return key === "aws_access_key_id"
+        ? `${prefix}...${value.slice(-4)}`
+        : `${prefix}[hidden]`;
+    })
+    .join("\n");
+}
+
+function hasLongTermKeys(values: Record<string, string>) {
+  return (
+    values.aws_access_key_id != null &&
+    values.aws_secret_access_key != null &&
+    values.aws_session_token == null
+  );
+}
+
+function withoutReplacedKeys(values: Record<string, string>) {
+  return Object.fromEntries(
+    Object.entries(values).filter(([key]) => !REPLACED_KEYS.includes(key)),
+  );
+}
+
+function buildCredentialProcess(
+  item: ImportedItem,
+  role: Record<string, string> | undefined,
+  options: ImportOptions,
+) {
+  const args = [options.opawsCommand, "--op-item", item.title];
+  if (options.opVault != null) args.push("--op-vault", options.opVault);
+  if (options.opAccount != null) args.push("--op-account", options.opAccount);
+  if (role != null) {
+    args.push("--role-arn", role.role_arn);
+    if (role.role_session_name != null) {
+      args.push("--role-session-name", role.role_session_name);
+    }
+    if (role.duration_seconds != null) {
+      args.push("--duration", `${role.duration_seconds}s`);
+    }
+    if (role.external_id != null) {
+      args.push("--external-id", role.external_id);
+    }
+    if (role.source_identity != null) {
+      args.push("--source-identity", role.source_identity);
+    }
+  }
+  return args.map(quoteShellArg).join(" ");
+}
+
+function buildImportPlan(
+  config: IniFile,
+  credentials: IniFile,
+  options: ImportOptions,
+): ImportPlan {
+  const plan: ImportPlan = {
+    items: [],
+    rewritten: [],
+    skipped: [],
+    warnings: [],
+    config,
+    credentials,
+  };
+
+  const configProfiles = new Map(
+    config.sections
+      .map((s) => [profileFromConfigSection(s.name), s.values] as const)
+      .filter((e): e is [string, Record<string, string>] => e[0] != null),
+  );
+
+  //
+  // Long-term keys can live in either file. The credentials file wins, as it
+  // does for the AWS SDK.
+  //
+  const items = new Map<string, ImportedItem>();
+  const addItem = (profile: string, values: Record<string, string>) => {
+    if (items.has(profile) || !hasLongTermKeys(values)) return;
+    items.set(profile, {
+      title: `${options.itemPrefix}${profile}`,
+      profile,
+      accessKeyId: values.aws_access_key_id,
+      secretAccessKey: values.aws_secret_access_key,
+      mfaSerial: configProfiles.get(profile)?.mfa_serial,
+    });
+  };
+  credentials.sections.forEach((s) => addItem(s.name, s.values));
+  configProfiles.forEach((values, profile) => addItem(profile, values));
+
+  const rewrite = (
+    profile: string,
+    values: Record<string, string>,
+    item: ImportedItem,
+    role?: Record<string, string>,
+  ) => {
+    const credentialProcess = buildCredentialProcess(item, role, options);
+    plan.config = setIniSection(plan.config, configSectionName(profile), {
+      ...withoutReplacedKeys(values),
+      credential_process: credentialProcess,
+    });
+    plan.rewritten.push({ profile, credentialProcess });
+  };
+
+  for (const [profile, values] of configProfiles) {
+    if (values.credential_process != null) {
+      plan.skipped.push({ profile, reason: "already uses credential_process" });
+      continue;
+    }
+
+    const item = items.get(profile);
+    if (item != null) {
+      rewrite(profile, values, item);
+      continue;
+    }
+
+    if (values.role_arn == null) continue;
+
+    if (values.source_profile == null) {
+      plan.skipped.push({
+        profile,
+        reason:
+          "role has no source_profile (credential_source isn't supported)",
+      });
+      continue;
+    }
+
+    const source = items.get(values.source_profile);
+    if (source == null) {
+      plan.skipped.push({
+        profile,
+        reason: `source profile ${values.source_profile} has no long-term keys to import`,
+      });
+      continue;
+    }
+
+    if (values.mfa_serial != null) {
+      if (source.mfaSerial == null) {
+        source.mfaSerial = values.mfa_serial;
+      } else if (source.mfaSerial !== values.mfa_serial) {
+        plan.warnings.push(
+          `Profile ${profile} uses MFA device ${values.mfa_serial}, but ${source.title} will use ${source.mfaSerial}.`,
+        );
+      }
+    }
+
+    rewrite(profile, values, source, values);
+  }
+
+  //
+  // Keys in the credentials file with no matching profile in the config file
+  // still need a profile to keep working.
+  //
+  for (const item of items.values()) {
+    if (!configProfiles.has(item.profile)) {
+      rewrite(item.profile, {}, item);
+    }
+    plan.credentials = setIniSection(plan.credentials, item.profile, undefined);
+  }
+
+  plan.items = [...items.values()];
+  for (const item of plan.items) {
+    if (item.mfaSerial != null) {
+      plan.warnings.push(
+        `Add the MFA seed for ${item.mfaSerial} to ${item.title} as a one-time password field; it can't be imported from AWS files.`,
+      );
+    }
+  }
+
+  return plan;
+}
+
+function printPlan(plan: ImportPlan, options: ImportOptions) {
+  const vault = options.opVault ?? "the default vault";
+
+  if (plan.items.length > 0) {
+    console.log(`1Password items (in ${vault}):`);
+    for (const item of plan.items) {
+      console.log(
+        `  ${item.title}: access key ...${item.accessKeyId.slice(-4)} from profile ${item.profile}${item.mfaSerial ? `, MFA ${item.mfaSerial}` : ""}`,
+      );
+    }
+    console.log();
+  }
+
+  if (plan.rewritten.length > 0) {
+    console.log(`Profiles to rewrite:`);
+    plan.rewritten.forEach((r) =>
+      console.log(
+        `  ${r.profile}: credential_process = ${r.credentialProcess}`,
+      ),
+    );
+    console.log();
+  }
+
+  if (plan.skipped.length > 0) {
+    console.log(`Profiles skipped:`);
+    plan.skipped.forEach((s) => console.log(`  ${s.profile}: ${s.reason}`));
+    console.log();
+  }
+
+  plan.warnings.forEach((w) => console.log(`Warning: ${w}`));
+}
+
+/**
+ * The items of the plan that aren't in 1Password yet. Any other failure to
+ * look an item up, such as there being more than one, is thrown rather than
+ * leading to another item with the same title.
+ */
+function findMissingItems(plan: ImportPlan, options: ImportOptions) {
+  return plan.items.filter((item) => {
+    try {
+      op.item.get(item.title, {
+        vault: options.opVault,
+        account: options.opAccount,
+      });
+      return false;
+    } catch (e) {
+      if (classifyError(e).kind !== "op-item-not-found") throw e;
+      logger.debug(`Item not found`, { title: item.title, error: e });
+      return true;
+    }
+  });
+}
+
+function ensureItemsExist(plan: ImportPlan, options: ImportOptions) {
+  const missing = findMissingItems(plan, options);
+  if (missing.length > 0) {
+    console.error(
+      `These 1Password items don't exist yet: ${missing.map((i) => i.title).join(", ")}`,
+    );
+    console.error(`Create them, or run again with --create-items.`);
+    process.exit(1);
+  }
+}
+
+export const command = new Command("import")
+  .option(
+    "-v, --op-vault <op vault name>",
+    "1Password vault to create or find the items in.",
+  )
+  .option(
+    "-a, --op-account <op account name>",
+    "1Password account to create or find the items in.",
+  )
+  .option(
+    "--item-prefix <prefix>",
+    "Prefix for 1Password item titles; the rest is the profile name.",
+    "AWS ",
+  )
+  .option(
+    "--create-items",
+    "Create the 1Password items. Otherwise they must already exist.",
+  )
+  .option(
+    "--opaws-command <command>",
+    "Command to use in credential_process, e.g. a wrapper script.",
+    "opaws",
+  )
+  .option("-n, --dry-run", "Show the changes to each file without making them.")
+  .description(
+    "Moves long-term keys from the AWS config and credentials files into 1Password, and rewrites the profiles to use opaws.",
+  )
+  .action(async (options) => {
+    const configFilename = getAwsConfigFilename();
+    const credentialsFilename = getAwsCredentialsFilename();
+
+    const config = await readIniFile(configFilename);
+    const credentials = await readIniFile(credentialsFilename);
+    const plan = buildImportPlan(config, credentials, options);
+
+    if (plan.rewritten.length === 0) {
+      console.log("Nothing to import.");
+      return;
+    }
+
+    printPlan(plan, options);
+
+    const changes = [
+      { filename: configFilename, before: config, after: plan.config },
+      {
+        filename: credentialsFilename,
+        before: credentials,
+        after: plan.credentials,
+      },
+    ].filter((c) => formatIni(c.before) !== formatIni(c.after));
+
+    if (options.dryRun) {
+      for (const change of changes) {
+        console.log();
+        console.log(`--- ${change.filename}`);
+        console.log(`+++ ${change.filename} (after import)`);
+        console.log(
+          diffLines(
+            maskKeys(formatIni(change.before)),
+            maskKeys(formatIni(change.after)),
+          ),
+        );
+      }
+      return;
+    }
+
+    //
+    // Items created by an earlier run that failed partway are left alone, so
+    // running again doesn't make titles ambiguous.
+    //
+    if (options.createItems) {
+      const missing = findMissingItems(plan, options);
+      for (const item of plan.items) {
+        if (!missing.includes(item)) {
+          console.log(`1Password item ${item.title} already exists.`);
+          continue;
+        }
+        create1pAwsItem(item.title, item, options);
+        console.log(`Created 1Password item ${item.title}.`);
+      }
+    } else {
+      ensureItemsExist(plan, options);
+    }
+
+    for (const change of changes) {
+      const backup = await backupFile(change.filename);
+      await writeFileAtomic(change.filename, formatIni(change.after));
+      console.log(
+        `Updated ${change.filename}${backup ? ` (backup in ${backup})` : ""}.`,
+      );
+    }
+  });
@@ -1,22 +1,63 @@
-import { mkdir, readFile, rm, stat, writeFile } from "fs/promises";
-import { hostname } from "os";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import { hostname, tmpdir } from "os";
 import { join } from "path";
 
+import { OpawsError } from "./errors.js";
 import { logger } from "./logger.js";
+import { formatDuration } from "./util.js";
 
+//
+// Holders rewrite their info file every HEARTBEAT_INTERVAL_MS, so a lock is
+// only stale once its heartbeat stops, however long the holder legitimately
+// waits (e.g. on a Touch ID prompt, or for the next TOTP window). Locks
+// written by versions without a heartbeat fall back to the directory's age.
+//
+// The heartbeat runs on the event loop, which op-js blocks with spawnSync
+// for as long as a 1Password prompt is up. So a live holder on this host is
+// only stale after staleMs, heartbeat or not; HEARTBEAT_STALE_MS applies to
+// holders on other hosts, whose process can't be checked.
+//
 const DEFAULT_STALE_MS = 5 * 60 * 1000;
 const DEFAULT_WAIT_MS = 90 * 1000;
+const DEFAULT_WAIT_NOTIFY_MS = 3 * 1000;
 const RETRY_INTERVAL_MS = 200;
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const HEARTBEAT_STALE_MS = 60 * 1000;
 
 export type LockOptions = {
   waitMs?: number;
   staleMs?: number;
+  /** What the lock protects, shown to anyone waiting for or listing it. */
+  description?: string;
+  /** Called once if the lock is still held after waitNotifyMs. */
+  onWait?: (holder: LockInfo | undefined) => void;
+  waitNotifyMs?: number;
 };
 
-type LockInfo = {
+export type LockInfo = {
   pid: number;
   host: string;
   acquiredAt: string;
+  heartbeatAt?: string;
+  description?: string;
+};
+
+export type LockState = "held" | "stale" | "dead";
+
+export type HeldLock = {
+  path: string;
+  info?: LockInfo;
+  state: LockState;
+  /** Time since the last heartbeat, or since the lock directory changed. */
+  idleMs: number;
 };
 
 export async function withLock<T>(
@@ -24,23 +65,40 @@ export async function withLock<T>(
   callback: () => Promise<T>,
   options: LockOptions = {},
 ): Promise<T> {
-  const waitMs = options.waitMs ?? DEFAULT_WAIT_MS;
-  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const info = await acquire(lockPath, options);
+  const heartbeat = setInterval(
+    () => void beat(lockPath, info, heartbeat),
+    HEARTBEAT_INTERVAL_MS,
+  );
+  heartbeat.unref();
 
-  await acquire(lockPath, waitMs, staleMs);
   try {
     return await callback();
   } finally {
-    await release(lockPath);
+    clearInterval(heartbeat);
+    await release(lockPath, info);
   }
 }
 
+/**
+ * Describes who holds a lock, for messages to the user.
+ */
+export function describeHolder(info: LockInfo | undefined, now = Date.now()) {
+  if (info == null) return "an unknown process";
+  const age = formatDuration(now - new Date(info.acquiredAt).getTime());
+  const what = info.description != null ? ` for ${info.description}` : "";
+  return `pid ${info.pid} on ${info.host}${what} (held ${age})`;
+}
+
 async function acquire(
   lockPath: string,
-  waitMs: number,
-  staleMs: number,
-): Promise<void> {
-  const deadline = Date.now() + waitMs;
+  options: LockOptions,
+): Promise<LockInfo> {
+  const waitMs = options.waitMs ?? DEFAULT_WAIT_MS;
+  const waitNotifyMs = options.waitNotifyMs ?? DEFAULT_WAIT_NOTIFY_MS;
+  const start = Date.now();
+  let reported = false;
+  let notified = false;
   logger.debug(`Acquiring lock`, { lockPath });
 
   while (true) {
@@ -50,21 +108,41 @@ async function acquire(
       // see EEXIST. That's the entire mutual-exclusion guarantee.
       //
       await mkdir(lockPath);
+      const now = new Date().toISOString();
       const info: LockInfo = {
         pid: process.pid,
         host: hostname(),
-        acquiredAt: new Date().toISOString(),
+        acquiredAt: now,
+        heartbeatAt: now,
+        description: options.description,
       };
-      await writeFile(join(lockPath, "info"), JSON.stringify(info));
+      await writeLockInfo(lockPath, info);
       logger.debug(`Lock acquired`, { lockPath });
-      return;
+      return info;
     } catch (e: unknown) {
       if (!isEexistError(e)) throw e;
 
-      if (await tryStealStale(lockPath, staleMs)) continue;
+      if (await tryStealStale(lockPath, options.staleMs)) continue;
+
+      const holder = await readLockInfo(lockPath);
+      if (!reported) {
+        logger.info(`Waiting for lock held by ${describeHolder(holder)}`, {
+          lockPath,
+        });
+        reported = true;
+      }
 
-      if (Date.now() >= deadline) {
-        throw new Error(`Timed out after ${waitMs}ms waiting for lock`);
+      const waited = Date.now() - start;
+      if (!notified && options.onWait != null && waited >= waitNotifyMs) {
+        notified = true;
+        options.onWait(holder);
+      }
+
+      if (waited >= waitMs) {
+        throw new OpawsError(
+          "lock-timeout",
+          `Timed out after ${formatDuration(waitMs)} waiting for the lock held by ${describeHolder(holder)}.`,
+        );
       }
 
       await new Promise((r) => setTimeout(r, RETRY_INTERVAL_MS));
@@ -72,54 +150,149 @@ async function acquire(
   }
 }
 
-async function tryStealStale(
-  lockPath: string,
-  staleMs: number,
-): Promise<boolean> {
-  let info: LockInfo | undefined;
+async function writeLockInfo(lockPath: string, info: LockInfo) {
+  //
+  // Written aside and renamed into place, so readers never see it half
+  // written.
+  //
+  const tmp = join(lockPath, `info.tmp.${process.pid}`);
+  await writeFile(tmp, JSON.stringify(info));
+  await rename(tmp, join(lockPath, "info"));
+}
+
+function isSameHolder(a: LockInfo | undefined, b: LockInfo) {
+  return (
+    a != null &&
+    a.pid === b.pid &&
+    a.host === b.host &&
+    a.acquiredAt === b.acquiredAt
+  );
+}
+
+async function beat(lockPath: string, info: LockInfo, timer: NodeJS.Timeout) {
   try {
-    info = JSON.parse(await readFile(join(lockPath, "info"), "utf8"));
-  } catch {
     //
-    // The info file may not exist yet (the holder is between mkdir and
-    // writeFile), or the lock may have just been released. Fall through to
-    // the mtime check.
+    // If the lock was broken and taken by another process, stop rather
+    // than overwrite its info.
     //
+    if (!isSameHolder(await readLockInfo(lockPath), info)) {
+      logger.warn(`Lock was taken over; stopping heartbeat`, { lockPath });
+      clearInterval(timer);
+      return;
+    }
+    info.heartbeatAt = new Date().toISOString();
+    await writeLockInfo(lockPath, info);
+  } catch (e) {
+    logger.warn(`Failed to refresh lock`, { lockPath, error: e });
   }
+}
 
-  if (info && info.host === hostname() && !isProcessAlive(info.pid)) {
-    logger.warn(`Stealing lock from dead pid`, {
-      lockPath,
-      pid: info.pid,
-    });
-    await rm(lockPath, { recursive: true, force: true });
-    return true;
+/**
+ * Reads the holder information for a lock, or undefined if the lock isn't
+ * held (or the holder hasn't written its info yet).
+ */
+export async function readLockInfo(
+  lockPath: string,
+): Promise<LockInfo | undefined> {
+  try {
+    return JSON.parse(await readFile(join(lockPath, "info"), "utf8"));
+  } catch {
+    return undefined;
   }
+}
 
+/**
+ * Reads a lock and works out whether its holder is still alive. Returns
+ * undefined if the lock isn't held.
+ */
+export async function inspectLock(
+  lockPath: string,
+  staleMs = DEFAULT_STALE_MS,
+  now = Date.now(),
+): Promise<HeldLock | undefined> {
+  let mtimeMs: number;
   try {
-    const s = await stat(lockPath);
-    if (Date.now() - s.mtimeMs > staleMs) {
-      logger.warn(`Stealing stale lock`, {
-        lockPath,
-        ageMs: Date.now() - s.mtimeMs,
-      });
-      await rm(lockPath, { recursive: true, force: true });
-      return true;
-    }
+    mtimeMs = (await stat(lockPath)).mtimeMs;
   } catch {
-    //
-    // Lock dir disappeared between our failed mkdir and this stat — the
-    // holder released. Caller should retry mkdir immediately.
-    //
-    return true;
+    return undefined;
+  }
+
+  //
+  // The info file may not exist yet (the holder is between mkdir and
+  // writing it), in which case only the directory's age is known.
+  //
+  const info = await readLockInfo(lockPath);
+  const heartbeatAt =
+    info?.heartbeatAt != null ? new Date(info.heartbeatAt).getTime() : null;
+  const idleMs = now - (heartbeatAt ?? mtimeMs);
+
+  const local = info != null && info.host === hostname();
+  let state: LockState = "held";
+  if (local && !isProcessAlive(info.pid)) {
+    state = "dead";
+  } else if (
+    idleMs > (heartbeatAt != null && !local ? HEARTBEAT_STALE_MS : staleMs)
+  ) {
+    state = "stale";
   }
 
-  return false;
+  return { path: lockPath, info, state, idleMs };
+}
+
+/**
+ * Lists the opaws locks in the temp directory.
+ */
+export async function listLocks(): Promise<HeldLock[]> {
+  const entries = await readdir(tmpdir());
+  const lockPaths = entries
+    .filter((e) => e === "opaws.lock" || e.startsWith("opaws-lock-"))
+    .map((e) => join(tmpdir(), e));
+
+  const locks = await Promise.all(lockPaths.map((path) => inspectLock(path)));
+  return locks.filter((lock): lock is HeldLock => lock != null);
 }
 
-async function release(lockPath: string): Promise<void> {
+/**
+ * Removes a lock regardless of who holds it.
+ */
+export async function breakLock(lockPath: string) {
+  await rm(lockPath, { recursive: true, force: true });
+}
+
+async function tryStealStale(
+  lockPath: string,
+  staleMs: number | undefined,
+): Promise<boolean> {
+  const lock = await inspectLock(lockPath, staleMs);
+
+  //
+  // Lock dir disappeared between our failed mkdir and the stat — the holder
+  // released. Caller should retry mkdir immediately.
+  //
+  if (lock == null) return true;
+  if (lock.state === "held") return false;
+
+  logger.warn(
+    lock.state === "dead"
+      ? `Stealing lock from dead pid`
+      : `Stealing stale lock`,
+    { lockPath, pid: lock.info?.pid, idleMs: lock.idleMs },
+  );
+  await breakLock(lockPath);
+  return true;
+}
+
+async function release(lockPath: string, info: LockInfo): Promise<void> {
   try {
-    await rm(lockPath, { recursive: true, force: true });
+    //
+    // Leave the lock alone if it was broken and taken by another process
+    // while we held it.
+    //
+    if (!isSameHolder(await readLockInfo(lockPath), info)) {
+      logger.warn(`Lock was taken over; not releasing it`, { lockPath });
+      return;
+    }
+    await breakLock(lockPath);
     logger.debug(`Lock released`, { lockPath });
   } catch (e) {
     logger.warn(`Failed to release lock`, { lockPath, error: e });
@@ -0,0 +1,93 @@
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { Command } from "@commander-js/extra-typings";
+
+import { breakLock, listLocks } from "./lock.js";
+import { formatDuration, formatTable } from "./util.js";
+
+function describeAge(from: string | undefined, now: number) {
+  return from != null ? formatDuration(now - new Date(from).getTime()) : "";
+}
+
+function resolveLockPath(lock: string) {
+  return lock.includes("/") || lock.includes("\\")
+    ? lock
+    : join(tmpdir(), lock);
+}
+
+export const command = new Command("locks")
+  .description("Lists and breaks the locks held by opaws processes.")
+  .addCommand(
+    new Command("list")
+      .option("--json", "Output locks as JSON.")
+      .description(
+        "Lists locks, who holds them, and whether their holder is still alive.",
+      )
+      .action(async (options) => {
+        const now = Date.now();
+        const locks = await listLocks();
+
+        if (options.json) {
+          console.log(JSON.stringify(locks, null, 2));
+          return;
+        }
+
+        if (locks.length === 0) {
+          console.log("No locks held.");
+          return;
+        }
+
+        console.log(
+          formatTable(
+            ["LOCK", "FOR", "HOLDER", "HELD", "IDLE", "STATE"],
+            locks.map((l) => [
+              l.path,
+              l.info?.description ?? "",
+              l.info != null ? `pid ${l.info.pid}@${l.info.host}` : "unknown",
+              describeAge(l.info?.acquiredAt, now),
+              formatDuration(l.idleMs),
+              l.state,
+            ]),
+          ),
+        );
+      }),
+    { isDefault: true },
+  )
+  .addCommand(
+    new Command("break")
+      .argument(
+        "[locks...]",
+        "Paths of the locks to break, or their names in the temp directory.",
+      )
+      .option("--stale", "Break every lock whose holder has died or hung.")
+      .option("--all", "Break every lock, even those still held.")
+      .description(
+        "Breaks locks, so that processes waiting for them can go ahead. Breaking a lock that is still held lets two processes fetch the same credentials at once.",
+      )
+      .action(async (lockArgs, options) => {
+        if (lockArgs.length === 0 && !options.stale && !options.all) {
+          console.error("Give the locks to break, or --stale or --all.");
+          process.exit(1);
+        }
+
+        const locks = await listLocks();
+        const paths = new Set(lockArgs.map(resolveLockPath));
+        const unknown = [...paths].filter(
+          (p) => !locks.some((l) => l.path === p),
+        );
+        unknown.forEach((p) => console.error(`No lock ${p} is held.`));
+
+        const broken = locks.filter(
+          (l) =>
+            options.all ||
+            paths.has(l.path) ||
+            (options.stale && l.state !== "held"),
+        );
+        await Promise.all(broken.map((l) => breakLock(l.path)));
+        broken.forEach((l) => console.log(`Broke ${l.path} (${l.state}).`));
+        console.log(`Broke ${broken.length} locks.`);
+
+        if (unknown.length > 0) process.exit(1);
+      }),
+  );
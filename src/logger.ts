@@ -1,33 +1,96 @@
+import { randomUUID } from "crypto";
 import { tmpdir } from "os";
 import { join } from "path";
 
 import { MESSAGE } from "triple-beam";
 import winston from "winston";
 
+import { redact } from "./redact.js";
+
+//
+// Configured from the environment, since logging starts before options are
+// parsed:
+//
+// - OPAWS_LOG_DIR: where log files go. The default is the temp directory.
+// - OPAWS_LOG_LEVEL: the lowest level written to the log file.
+// - OPAWS_LOG_FORMAT: "text" (the default) or "json", one object per line.
+// - OPAWS_CORRELATION_ID: identifies this invocation in JSON logs. Generated
+//   if not set, and passed on to processes opaws starts itself.
+//
+
+const LOG_LEVELS = Object.keys(winston.config.npm.levels);
+const LOG_FORMATS = ["text", "json"];
+
+export const LOG_DIRECTORY = process.env.OPAWS_LOG_DIR || tmpdir();
+
 export const LOG_FILENAME = join(
-  tmpdir(),
+  LOG_DIRECTORY,
   `opaws-log-${Date.now()}-${process.pid}.log`,
 );
 
+export const CORRELATION_ID = process.env.OPAWS_CORRELATION_ID || randomUUID();
+
+const envLevel = process.env.OPAWS_LOG_LEVEL;
+const envFormat = process.env.OPAWS_LOG_FORMAT;
+
+const fileLevel =
+  envLevel && LOG_LEVELS.includes(envLevel) ? envLevel : "debug";
+const fileFormat =
+  envFormat && LOG_FORMATS.includes(envFormat) ? envFormat : "text";
+
+const redactSecrets = winston.format((info) => {
+  //
+  // When an Error is logged on its own, it is the record, and its message
+  // isn't enumerable. Return a plain copy, which the transports' formats
+  // will copy again without losing it.
+  //
+  return { ...info, ...redact({ ...info, message: info.message }) };
+});
+
+const textFormat = winston.format.combine(winston.format.simple(), {
+  transform: (info) => {
+    info[MESSAGE] =
+      `${new Date().toISOString()} ${process.pid} ${info[MESSAGE]}`;
+    return info;
+  },
+});
+
+const jsonFormat = winston.format.combine(
+  winston.format((info) =>
+    Object.assign(info, {
+      timestamp: new Date().toISOString(),
+      pid: process.pid,
+      correlationId: CORRELATION_ID,
+    }),
+  )(),
+  winston.format.json(),
+);
+
 const consoleTransport = new winston.transports.Console({
   level: "error",
+  format: textFormat,
 });
 
 export const logger = winston.createLogger({
   level: "debug",
-  format: winston.format.combine(winston.format.simple(), {
-    transform: (info) => {
-      info[MESSAGE] =
-        `${new Date().toISOString()} ${process.pid} ${info[MESSAGE]}`;
-      return info;
-    },
-  }),
+  format: redactSecrets(),
   transports: [
     consoleTransport,
-    new winston.transports.File({ filename: LOG_FILENAME }),
+    new winston.transports.File({
+      filename: LOG_FILENAME,
+      level: fileLevel,
+      format: fileFormat === "json" ? jsonFormat : textFormat,
+    }),
   ],
 });
 
+if (envLevel && envLevel !== fileLevel) {
+  logger.warn(`Ignoring invalid OPAWS_LOG_LEVEL ${envLevel}`);
+}
+if (envFormat && envFormat !== fileFormat) {
+  logger.warn(`Ignoring invalid OPAWS_LOG_FORMAT ${envFormat}`);
+}
+
 export function configureDebugLogging() {
   consoleTransport.level = "debug";
 }
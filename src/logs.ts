@@ -0,0 +1,423 @@
+import { Stats, unwatchFile, watchFile } from "fs";
+import { appendFile, open, readdir, readFile, rm, stat } from "fs/promises";
+import { join } from "path";
+
+import { Command } from "@commander-js/extra-typings";
+import timestring from "timestring";
+import { z } from "zod";
+
+import { classifyError } from "./errors.js";
+import { LOG_DIRECTORY, LOG_FILENAME, logger } from "./logger.js";
+import { formatTable, isFileNotFoundError, writeFileAtomic } from "./util.js";
+
+//
+// Every invocation writes its own log file. To stop them piling up, old
+// ones are pruned at most once per PRUNE_INTERVAL_MS, at startup, according
+// to these environment variables:
+//
+// - OPAWS_LOG_MAX_AGE: a time string; older logs are deleted. Default 7d.
+// - OPAWS_LOG_MAX_COUNT: how many logs to keep. Default 100.
+// - OPAWS_LOG_MAX_SIZE: total size of the logs to keep, in bytes or with a
+//   K, M or G suffix. Default 50M.
+// - OPAWS_LOG_KEEP: "all" (the default), or "failures" to delete the log of
+//   every run that succeeds as soon as it finishes.
+//
+// Runs that obtain credentials also append a line to RUNS_FILENAME, so
+// `util logs` can list them with their outcome without parsing the logs.
+//
+
+const LOG_FILE_PATTERN = /^opaws-log-.*\.log$/;
+export const RUNS_FILENAME = join(LOG_DIRECTORY, "opaws-runs.jsonl");
+const PRUNE_STAMP_FILENAME = join(LOG_DIRECTORY, "opaws-log-prune.stamp");
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_RUNS = 1000;
+const FOLLOW_INTERVAL_MS = 500;
+
+const SIZE_SUFFIXES: Record<string, number> = {
+  "": 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+};
+
+const runSchema = z.object({
+  log: z.string(),
+  command: z.string(),
+  startedAt: z.string(),
+  finishedAt: z.string(),
+  outcome: z.enum(["success", "failure"]),
+  exitCode: z.number().optional(),
+  error: z.string().optional(),
+  opItem: z.string().optional(),
+  roleArn: z.string().optional(),
+});
+
+export type Run = z.infer<typeof runSchema>;
+
+type RetentionSettings = {
+  maxAgeMs: number;
+  maxCount: number;
+  maxSize: number;
+  keepFailuresOnly: boolean;
+};
+
+function parseSize(value: string) {
+  const match = /^(\d+)\s*([kmg]?)b?$/i.exec(value.trim());
+  if (match == null) throw new Error(`"${value}" is not a valid size`);
+  return Number(match[1]) * SIZE_SUFFIXES[match[2].toLowerCase()];
+}
+
+function fromEnv<T>(name: string, parse: (value: string) => T, fallback: T) {
+  const value = process.env[name];
+  if (!value) return fallback;
+  try {
+    return parse(value);
+  } catch (e) {
+    logger.warn(`Ignoring invalid ${name} ${value}`, e);
+    return fallback;
+  }
+}
+
+function getRetentionSettings(): RetentionSettings {
+  return {
+    maxAgeMs: fromEnv(
+      "OPAWS_LOG_MAX_AGE",
+      (v) => timestring(v, "ms"),
+      7 * 24 * 60 * 60 * 1000,
+    ),
+    maxCount: fromEnv(
+      "OPAWS_LOG_MAX_COUNT",
+      (v) => {
+        const count = Number(v);
+        if (!Number.isInteger(count) || count < 0) throw new Error(v);
+        return count;
+      },
+      100,
+    ),
+    maxSize: fromEnv("OPAWS_LOG_MAX_SIZE", parseSize, 50 * 1024 ** 2),
+    keepFailuresOnly: process.env.OPAWS_LOG_KEEP === "failures",
+  };
+}
+
+async function readRuns(): Promise<Run[]> {
+  let data: string;
+  try {
+    data = (await readFile(RUNS_FILENAME)).toString();
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+    return [];
+  }
+
+  return data
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .flatMap((line) => {
+      try {
+        return [runSchema.parse(JSON.parse(line))];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Records how a run that obtains credentials ended. With OPAWS_LOG_KEEP set
+ * to "failures", also deletes the log of a successful run.
+ */
+export async function finishRun(
+  command: string,
+  options: { opItem?: string; roleArn?: string },
+  error?: unknown,
+) {
+  const failure = error !== undefined ? classifyError(error) : undefined;
+  const run: Run = {
+    log: LOG_FILENAME,
+    command,
+    startedAt: new Date(performance.timeOrigin).toISOString(),
+    finishedAt: new Date().toISOString(),
+    outcome: failure != null ? "failure" : "success",
+    exitCode: failure?.exitCode ?? 0,
+    error: failure?.message,
+    opItem: options.opItem,
+    roleArn: options.roleArn,
+  };
+
+  try {
+    //
+    // One short line per append, so concurrent runs don't interleave.
+    //
+    await appendFile(RUNS_FILENAME, JSON.stringify(run) + "\n", {
+      mode: 0o600,
+    });
+    if (failure == null && getRetentionSettings().keepFailuresOnly) {
+      await rm(LOG_FILENAME, { force: true });
+    }
+  } catch (e) {
+    logger.warn(`Could not record the run`, e);
+  }
+}
+
+/**
+ * Deletes logs beyond the retention limits, and their runs. Logs in use by
+ * running processes may be deleted too; they keep writing to the unlinked
+ * file.
+ */
+export async function pruneLogs(now = Date.now()) {
+  const settings = getRetentionSettings();
+
+  //
+  // Another process may remove a log between the listing and its stat;
+  // there's nothing left to prune then.
+  //
+  const files = (
+    await Promise.all(
+      (await readdir(LOG_DIRECTORY))
+        .filter((name) => LOG_FILE_PATTERN.test(name))
+        .map((name) => join(LOG_DIRECTORY, name))
+        .filter((filename) => filename !== LOG_FILENAME)
+        .map(async (filename) => {
+          try {
+            return { filename, ...(await stat(filename)) };
+          } catch (e) {
+            if (!isFileNotFoundError(e)) throw e;
+            return undefined;
+          }
+        }),
+    )
+  ).filter((file) => file != null);
+  files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  let totalSize = 0;
+  const expired = files.filter((file, i) => {
+    totalSize += file.size;
+    return (
+      now - file.mtimeMs > settings.maxAgeMs ||
+      i >= settings.maxCount ||
+      totalSize > settings.maxSize
+    );
+  });
+  await Promise.all(expired.map((f) => rm(f.filename, { force: true })));
+
+  //
+  // Runs are kept for as long as logs are, even if their own log is gone.
+  // A run appended while this rewrites the file may be lost; that's better
+  // than making every run wait on a lock.
+  //
+  const runs = await readRuns();
+  const kept = runs
+    .filter((r) => now - new Date(r.finishedAt).getTime() <= settings.maxAgeMs)
+    .slice(-MAX_RUNS);
+  if (kept.length < runs.length) {
+    await writeFileAtomic(
+      RUNS_FILENAME,
+      kept.map((r) => JSON.stringify(r) + "\n").join(""),
+    );
+  }
+
+  logger.debug(`Pruned logs`, {
+    deleted: expired.length,
+    runsDeleted: runs.length - kept.length,
+  });
+}
+
+/**
+ * Prunes logs if they haven't been pruned recently. Never throws, since
+ * it's no reason for a run to fail.
+ */
+export async function pruneLogsIfDue() {
+  try {
+    const now = Date.now();
+    try {
+      const stamp = await stat(PRUNE_STAMP_FILENAME);
+      if (now - stamp.mtimeMs < PRUNE_INTERVAL_MS) return;
+    } catch (e) {
+      if (!isFileNotFoundError(e)) throw e;
+    }
+
+    //
+    // Claim this interval before pruning, so concurrent runs don't all
+    // prune at once.
+    //
+    await writeFileAtomic(PRUNE_STAMP_FILENAME, "");
+    await pruneLogs(now);
+  } catch (e) {
+    logger.warn(`Could not prune logs`, e);
+  }
+}
+
+type RunFilter = {
+  opItem?: string;
+  roleArn?: string;
+  failed?: true;
+};
+
+async function findRuns(filter: RunFilter) {
+  return (await readRuns())
+    .filter(
+      (r) =>
+        (filter.opItem == null || r.opItem === filter.opItem) &&
+        (filter.roleArn == null || r.roleArn === filter.roleArn) &&
+        (!filter.failed || r.outcome === "failure"),
+    )
+    .reverse();
+}
+
+async function readLogIfExists(filename: string) {
+  try {
+    return (await readFile(filename)).toString();
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+    return undefined;
+  }
+}
+
+/**
+ * Writes what is appended to a log from offset bytes in, until interrupted
+ * or the log is deleted.
+ */
+async function followLog(filename: string, offset: number) {
+  let position = offset;
+
+  const readAppended = async () => {
+    const file = await open(filename);
+    try {
+      const { size } = await file.stat();
+      if (size <= position) return;
+      const buffer = Buffer.alloc(size - position);
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+      position += bytesRead;
+      process.stdout.write(buffer.subarray(0, bytesRead));
+    } finally {
+      await file.close();
+    }
+  };
+
+  //
+  // Polled rather than watched with fs.watch, which misses changes on some
+  // file systems. Reads are chained so output stays in order.
+  //
+  let reading = Promise.resolve();
+  await new Promise<void>((resolve, reject) => {
+    const onChange = (current: Stats) => {
+      if (current.mtimeMs === 0) {
+        unwatchFile(filename, onChange);
+        console.error(`Log ${filename} was deleted.`);
+        resolve();
+        return;
+      }
+      reading = reading.then(readAppended).catch((e) => {
+        //
+        // Deleted since the poll; the next one says so.
+        //
+        if (isFileNotFoundError(e)) return;
+        unwatchFile(filename, onChange);
+        reject(e);
+      });
+    };
+    watchFile(filename, { interval: FOLLOW_INTERVAL_MS }, onChange);
+  });
+}
+
+export const command = new Command("logs")
+  .description("Lists recent runs and shows their logs.")
+  .addCommand(
+    new Command("list")
+      .option("-i, --op-item <op item>", "Only runs for this item.")
+      .option("-r, --role-arn <role ARN>", "Only runs for this role.")
+      .option("--failed", "Only runs that failed.")
+      .option(
+        "-n, --limit <count>",
+        "How many runs to list.",
+        (value) => parseInt(value, 10),
+        20,
+      )
+      .option("--json", "Output runs as JSON.")
+      .description("Lists recent runs, newest first.")
+      .action(async (options) => {
+        const runs = (await findRuns(options)).slice(0, options.limit);
+
+        if (options.json) {
+          console.log(JSON.stringify(runs, null, 2));
+          return;
+        }
+
+        if (runs.length === 0) {
+          console.log("No runs found.");
+          return;
+        }
+
+        console.log(
+          formatTable(
+            ["FINISHED", "COMMAND", "OUTCOME", "ITEM", "ROLE", "LOG"],
+            runs.map((r) => [
+              r.finishedAt,
+              r.command,
+              r.outcome === "failure" ? `failure (${r.exitCode})` : r.outcome,
+              r.opItem ?? "",
+              r.roleArn ?? "",
+              r.log,
+            ]),
+          ),
+        );
+      }),
+    { isDefault: true },
+  )
+  .addCommand(
+    new Command("show")
+      .argument("[log]", "Log file to show. Defaults to the latest failure.")
+      .option("-i, --op-item <op item>", "The latest failure for this item.")
+      .option("-r, --role-arn <role ARN>", "The latest failure for this role.")
+      .option(
+        "-n, --lines <count>",
+        "Show only the last lines of the log.",
+        (value) => parseInt(value, 10),
+      )
+      .option(
+        "-f, --follow",
+        "Keep showing lines as they are added to the log, e.g. the agent's.",
+      )
+      .description("Shows a log, by default that of the latest failed run.")
+      .action(async (log, options) => {
+        let filename = log;
+        if (filename == null) {
+          const [run] = await findRuns({ ...options, failed: true });
+          if (run == null) {
+            console.log("No failed runs found.");
+            return;
+          }
+          console.log(
+            `${run.command} failed at ${run.finishedAt}: ${run.error ?? ""}`,
+          );
+          console.log();
+          filename = run.log;
+        }
+
+        const content = await readLogIfExists(filename);
+        if (content == null) {
+          console.error(`Log ${filename} no longer exists.`);
+          process.exit(1);
+        }
+
+        const lines = content.trimEnd().split("\n");
+        console.log(
+          (options.lines != null ? lines.slice(-options.lines) : lines).join(
+            "\n",
+          ),
+        );
+
+        if (options.follow) {
+          await followLog(filename, Buffer.byteLength(content));
+        }
+      }),
+  )
+  .addCommand(
+    new Command("prune")
+      .description(
+        "Deletes logs beyond the retention limits now, rather than waiting for it to happen automatically.",
+      )
+      .action(async () => {
+        await pruneLogs();
+        await writeFileAtomic(PRUNE_STAMP_FILENAME, "");
+        console.log("Pruned logs.");
+      }),
+  );
@@ -0,0 +1,247 @@
+import { exec } from "child_process";
+import { closeSync, openSync } from "fs";
+import { createInterface } from "readline/promises";
+import { ReadStream, WriteStream } from "tty";
+import { promisify } from "util";
+
+import { OpawsError } from "./errors.js";
+import { logger } from "./logger.js";
+import { getNotifierBackend, notify } from "./notifier.js";
+import { AwsKeys } from "./sources/index.js";
+
+const execAsync = promisify(exec);
+
+//
+// Where the MFA code comes from when the item has an MFA serial:
+//
+// - item: the one-time password the source generated from its seed.
+// - command: the output of --mfa-command.
+// - prompt: typed in at the terminal.
+// - notification: typed into a notification's reply field.
+//
+// "auto" picks the first of these that is available.
+//
+export const MFA_PROVIDERS = [
+  "auto",
+  "item",
+  "command",
+  "prompt",
+  "notification",
+] as const;
+
+export type MfaProvider = (typeof MFA_PROVIDERS)[number];
+
+export type MfaOptions = {
+  opItem: string;
+  mfa: MfaProvider;
+  mfaCommand?: string;
+};
+
+const MFA_CODE_PATTERN = /^\d{6}$/;
+const MFA_COMMAND_TIMEOUT_MS = 2 * 60 * 1000;
+const MFA_NOTIFICATION_TIMEOUT_SECONDS = 2 * 60;
+const MFA_PROMPT_ATTEMPTS = 3;
+
+/**
+ * Whether codes from the provider are typed by a person. They can wait for
+ * a fresh code themselves, so a rejected one needn't be retried after a
+ * pause.
+ */
+export function isInteractiveMfaProvider(provider: MfaProvider | undefined) {
+  return provider === "prompt" || provider === "notification";
+}
+
+//
+// A terminal to prompt on. When run as a credential_process, stdin and
+// stdout belong to the AWS SDK, but the controlling terminal may still be
+// there. Processes without one (e.g. detached background refreshes) fail to
+// open it.
+//
+type Terminal = { input: ReadStream; output: WriteStream };
+
+function openTerminal(): Terminal | undefined {
+  if (process.platform === "win32") {
+    return process.stdin.isTTY && process.stderr.isTTY
+      ? {
+          input: process.stdin as ReadStream,
+          output: process.stderr as WriteStream,
+        }
+      : undefined;
+  }
+
+  try {
+    return {
+      input: new ReadStream(openSync("/dev/tty", "r")),
+      output: new WriteStream(openSync("/dev/tty", "w")),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function closeTerminal(terminal: Terminal) {
+  if (terminal.input === process.stdin) return;
+  terminal.input.destroy();
+  terminal.output.destroy();
+}
+
+function hasTerminal() {
+  if (process.platform === "win32") {
+    return process.stdin.isTTY && process.stderr.isTTY;
+  }
+  try {
+    closeSync(openSync("/dev/tty", "r"));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function chooseMfaProvider(
+  keys: AwsKeys,
+  options: MfaOptions,
+): Promise<MfaProvider | undefined> {
+  if (options.mfa !== "auto") return options.mfa;
+
+  if (keys.totp != null) return "item";
+  if (options.mfaCommand != null) return "command";
+  if (hasTerminal()) return "prompt";
+  if (await (await getNotifierBackend()).supportsReply()) {
+    return "notification";
+  }
+  return undefined;
+}
+
+async function runMfaCommand(command: string, mfaSerial: string) {
+  logger.debug(`Running MFA command`, { command });
+  try {
+    const { stdout } = await execAsync(command, {
+      env: { ...process.env, OPAWS_MFA_SERIAL: mfaSerial },
+      timeout: MFA_COMMAND_TIMEOUT_MS,
+    });
+    return stdout.trim();
+  } catch (e) {
+    throw new OpawsError(
+      "mfa-unavailable",
+      `The MFA command failed: ${(e as Error).message}`,
+      { cause: e },
+    );
+  }
+}
+
+async function promptForMfaCode(
+  mfaSerial: string,
+  options: MfaOptions,
+  retry: boolean,
+) {
+  const terminal = openTerminal();
+  if (terminal == null) {
+    throw new OpawsError(
+      "mfa-unavailable",
+      `There is no terminal to ask for the MFA code on.`,
+    );
+  }
+
+  const rl = createInterface({ ...terminal, terminal: true });
+  try {
+    if (retry) {
+      terminal.output.write(
+        `The MFA code was rejected, perhaps because it was already used. Wait for the next one.\n`,
+      );
+    }
+    for (let i = 0; i < MFA_PROMPT_ATTEMPTS; i++) {
+      const code = (
+        await rl.question(`MFA code for ${options.opItem} (${mfaSerial}): `)
+      ).trim();
+      if (MFA_CODE_PATTERN.test(code)) return code;
+      terminal.output.write(`An MFA code is 6 digits.\n`);
+    }
+  } finally {
+    rl.close();
+    closeTerminal(terminal);
+  }
+
+  throw new OpawsError("mfa-unavailable", `No valid MFA code was entered.`);
+}
+
+async function askForMfaCodeInNotification(
+  mfaSerial: string,
+  options: MfaOptions,
+  retry: boolean,
+) {
+  const result = await notify({
+    title: "OPAWS",
+    message: [
+      retry
+        ? `The MFA code was rejected, perhaps because it was already used. Enter the next one`
+        : `Enter the MFA code`,
+      `for ${options.opItem} (${mfaSerial}).`,
+    ].join(" "),
+    reply: "MFA code",
+    timeout: MFA_NOTIFICATION_TIMEOUT_SECONDS,
+  });
+
+  if (result?.kind !== "replied") {
+    throw new OpawsError(
+      "mfa-unavailable",
+      `No MFA code was entered in the notification.`,
+    );
+  }
+  return result.reply.trim();
+}
+
+/**
+ * Fills in the MFA code for keys with an MFA serial, from the provider
+ * chosen by the options. Returns the keys unchanged if they don't need one,
+ * along with the provider used.
+ *
+ * Set retry when the last code was rejected, so people can be told to wait
+ * for the next one.
+ */
+export async function resolveMfaCode(
+  keys: AwsKeys,
+  options: MfaOptions,
+  retry = false,
+): Promise<{ keys: AwsKeys; provider?: MfaProvider }> {
+  if (keys.mfaSerial == null) return { keys };
+
+  const provider = await chooseMfaProvider(keys, options);
+  logger.debug(`Getting MFA code`, { provider });
+
+  let code: string | undefined;
+  switch (provider) {
+    case "item":
+      code = keys.totp;
+      break;
+    case "command":
+      if (options.mfaCommand == null) {
+        throw new OpawsError(
+          "mfa-unavailable",
+          `--mfa command needs --mfa-command.`,
+        );
+      }
+      code = await runMfaCommand(options.mfaCommand, keys.mfaSerial);
+      break;
+    case "prompt":
+      code = await promptForMfaCode(keys.mfaSerial, options, retry);
+      break;
+    case "notification":
+      code = await askForMfaCodeInNotification(keys.mfaSerial, options, retry);
+      break;
+  }
+
+  if (code == null) {
+    throw new OpawsError(
+      "mfa-unavailable",
+      `${options.opItem} has an MFA serial but no one-time password, and there's no other way to get an MFA code here.`,
+    );
+  }
+  if (provider !== "item" && !MFA_CODE_PATTERN.test(code)) {
+    throw new OpawsError(
+      "mfa-unavailable",
+      `The MFA code from ${provider} isn't 6 digits.`,
+    );
+  }
+
+  return { keys: { ...keys, totp: code }, provider };
+}
@@ -1,93 +1,101 @@
-import { exec, spawn } from "child_process";
-import { promisify } from "util";
+import { spawn } from "child_process";
 
 import { logger } from "./logger.js";
-
-const execAsync = promisify(exec);
-
-export type NotifyOptions = {
-  title: string;
-  message: string;
-  actions?: string[];
-  timeout?: number;
+import { alerter } from "./notifiers/alerter.js";
+import {
+  NotifierBackend,
+  NotifyOptions,
+  NotifyResult,
+} from "./notifiers/backend.js";
+import { gdbus } from "./notifiers/gdbus.js";
+import { notifySend } from "./notifiers/notifysend.js";
+import { osascript } from "./notifiers/osascript.js";
+import { powershell } from "./notifiers/powershell.js";
+
+export type { NotifierBackend, NotifyOptions, NotifyResult };
+
+//
+// Backends to try on each platform, in order of preference. Platforms not
+// listed here get the freedesktop ones, as the BSDs have the same desktops
+// as Linux.
+//
+const FREEDESKTOP_BACKENDS = [notifySend, gdbus];
+const PLATFORM_BACKENDS: Partial<Record<NodeJS.Platform, NotifierBackend[]>> = {
+  darwin: [alerter, osascript],
+  win32: [powershell],
 };
 
-export type NotifyResult =
-  | { kind: "action"; action: string }
-  | { kind: "contentClicked" }
-  | { kind: "closed" }
-  | { kind: "timeout" }
-  | { kind: "other"; activationType: string };
-
-const ALERTER_BIN = "alerter";
-
-let alerterAvailable: boolean | undefined;
-
-async function isAlerterAvailable(): Promise<boolean> {
-  if (alerterAvailable !== undefined) return alerterAvailable;
+//
+// The fallback when nothing else is available: the notification only goes
+// to the log.
+//
+const logOnly: NotifierBackend = {
+  name: "none",
+  supportsActions: async () => false,
+  supportsReply: async () => false,
+  isAvailable: async () => true,
+  notify: async (options) => {
+    logger.info(`Notification: ${options.title}: ${options.message}`);
+    return undefined;
+  },
+};
 
-  try {
-    await execAsync(`command -v ${ALERTER_BIN}`);
-    alerterAvailable = true;
-  } catch {
-    alerterAvailable = false;
-    logger.debug(
-      `'${ALERTER_BIN}' was not found on PATH; notifications are disabled.`,
-    );
+let backend: NotifierBackend | undefined;
+
+/**
+ * Returns the first available notification backend for this platform.
+ */
+export async function getNotifierBackend(): Promise<NotifierBackend> {
+  if (backend !== undefined) return backend;
+
+  const candidates =
+    PLATFORM_BACKENDS[process.platform] ?? FREEDESKTOP_BACKENDS;
+  for (const candidate of candidates) {
+    if (await candidate.isAvailable()) {
+      backend = candidate;
+      return backend;
+    }
   }
 
-  return alerterAvailable;
+  logger.debug(
+    `None of ${candidates.map((c) => `'${c.name}'`).join(", ")} were found; notifications are disabled.`,
+  );
+  backend = logOnly;
+  return backend;
 }
 
+/**
+ * Shows a notification. Returns undefined when no backend is available, it
+ * fails, or its output can't be understood. Actions are dropped by backends that can't
+ * show them.
+ */
 export async function notify(
   options: NotifyOptions,
 ): Promise<NotifyResult | undefined> {
-  if (!(await isAlerterAvailable())) return undefined;
-
-  const args = [
-    "--title",
-    options.title,
-    "--message",
-    options.message,
-    "--json",
-  ];
-
-  if (options.actions?.length) {
-    args.push("--actions", options.actions.join(","));
-  }
-
-  if (options.timeout != null) {
-    args.push("--timeout", String(options.timeout));
-  }
-
-  const output = await new Promise<string>((resolve, reject) => {
-    const child = spawn(ALERTER_BIN, args);
-    let stdout = "";
-    child.stdout.on("data", (chunk: Buffer) => {
-      stdout += chunk.toString();
-    });
-    child.on("error", reject);
-    child.on("close", () => resolve(stdout));
-  });
-
-  let parsed: { activationType?: string; activationValue?: string };
+  const backend = await getNotifierBackend();
   try {
-    parsed = JSON.parse(output);
+    return await backend.notify(options);
   } catch (e) {
-    logger.warn(`Could not parse alerter output: ${output}`, e);
+    logger.warn(`Could not show a notification with ${backend.name}`, e);
     return undefined;
   }
+}
 
-  switch (parsed.activationType) {
-    case "actionClicked":
-      return { kind: "action", action: parsed.activationValue ?? "" };
-    case "contentClicked":
-      return { kind: "contentClicked" };
-    case "closed":
-      return { kind: "closed" };
-    case "timeout":
-      return { kind: "timeout" };
-    default:
-      return { kind: "other", activationType: parsed.activationType ?? "" };
-  }
+/**
+ * Opens a file with the desktop's default application, without waiting for
+ * it.
+ */
+export function openFile(filename: string) {
+  const [bin, args] =
+    process.platform === "darwin"
+      ? ["open", [filename]]
+      : process.platform === "win32"
+        ? ["explorer", [filename]]
+        : ["xdg-open", [filename]];
+
+  const child = spawn(bin, args, { detached: true, stdio: "ignore" });
+  child.on("error", (e) =>
+    logger.warn(`Could not open ${filename} with ${bin}`, e),
+  );
+  child.unref();
 }
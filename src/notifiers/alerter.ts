@@ -0,0 +1,62 @@
+import { logger } from "../logger.js";
+
+import { isCommandAvailable, NotifierBackend, runNotifier } from "./backend.js";
+
+//
+// macOS Notification Center, via https://github.com/vjeantet/alerter.
+//
+
+const ALERTER_BIN = "alerter";
+
+export const alerter: NotifierBackend = {
+  name: "alerter",
+  supportsActions: async () => true,
+  supportsReply: async () => true,
+  isAvailable: () => isCommandAvailable(ALERTER_BIN),
+  notify: async (options) => {
+    const args = [
+      "--title",
+      options.title,
+      "--message",
+      options.message,
+      "--json",
+    ];
+
+    if (options.actions?.length) {
+      args.push("--actions", options.actions.join(","));
+    }
+
+    if (options.reply != null) {
+      args.push("--reply", options.reply);
+    }
+
+    if (options.timeout != null) {
+      args.push("--timeout", String(options.timeout));
+    }
+
+    const output = await runNotifier(ALERTER_BIN, args);
+
+    let parsed: { activationType?: string; activationValue?: string };
+    try {
+      parsed = JSON.parse(output);
+    } catch (e) {
+      logger.warn(`Could not parse alerter output: ${output}`, e);
+      return undefined;
+    }
+
+    switch (parsed.activationType) {
+      case "actionClicked":
+        return { kind: "action", action: parsed.activationValue ?? "" };
+      case "replied":
+        return { kind: "replied", reply: parsed.activationValue ?? "" };
+      case "contentClicked":
+        return { kind: "contentClicked" };
+      case "closed":
+        return { kind: "closed" };
+      case "timeout":
+        return { kind: "timeout" };
+      default:
+        return { kind: "other", activationType: parsed.activationType ?? "" };
+    }
+  },
+};
@@ -0,0 +1,76 @@
+import { exec, spawn } from "child_process";
+import { promisify } from "util";
+
+const execAsync = promisify(exec);
+
+export type NotifyOptions = {
+  title: string;
+  message: string;
+  actions?: string[];
+  /** Asks for a text reply, with this placeholder. */
+  reply?: string;
+  timeout?: number;
+};
+
+export type NotifyResult =
+  | { kind: "action"; action: string }
+  | { kind: "replied"; reply: string }
+  | { kind: "contentClicked" }
+  | { kind: "closed" }
+  | { kind: "timeout" }
+  //
+  // Displayed, but the backend can't tell us what the user did with it.
+  //
+  | { kind: "shown" }
+  | { kind: "other"; activationType: string };
+
+export type NotifierBackend = {
+  name: string;
+  /** Whether the backend can show action buttons and report clicks. */
+  supportsActions: () => Promise<boolean>;
+  /** Whether the backend can ask for a text reply and return it. */
+  supportsReply: () => Promise<boolean>;
+  isAvailable: () => Promise<boolean>;
+  notify: (options: NotifyOptions) => Promise<NotifyResult | undefined>;
+};
+
+export async function isCommandAvailable(bin: string): Promise<boolean> {
+  try {
+    await execAsync(
+      process.platform === "win32" ? `where ${bin}` : `command -v ${bin}`,
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Runs a notifier command to completion and returns its stdout. Rejects if
+ * the command fails.
+ */
+export function runNotifier(
+  bin: string,
+  args: string[],
+  env?: NodeJS.ProcessEnv,
+): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const child = spawn(bin, args, { env: { ...process.env, ...env } });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${bin} exited with ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
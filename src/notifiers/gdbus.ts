@@ -0,0 +1,43 @@
+import { isCommandAvailable, NotifierBackend, runNotifier } from "./backend.js";
+
+//
+// Freedesktop notifications sent straight over D-Bus, for desktops without
+// notify-send installed. Actions would need a signal subscription to report
+// back, so they are not shown.
+//
+
+//
+// gdbus parses its arguments as GVariant text, whose string syntax accepts
+// JSON-style double-quoted strings.
+//
+const gvariantString = (value: string) => JSON.stringify(value);
+
+export const gdbus: NotifierBackend = {
+  name: "gdbus",
+  supportsActions: async () => false,
+  supportsReply: async () => false,
+  isAvailable: async () =>
+    process.env.DBUS_SESSION_BUS_ADDRESS != null &&
+    (await isCommandAvailable("gdbus")),
+  notify: async (options) => {
+    await runNotifier("gdbus", [
+      "call",
+      "--session",
+      "--dest",
+      "org.freedesktop.Notifications",
+      "--object-path",
+      "/org/freedesktop/Notifications",
+      "--method",
+      "org.freedesktop.Notifications.Notify",
+      gvariantString("opaws"),
+      "0",
+      gvariantString(""),
+      gvariantString(options.title),
+      gvariantString(options.message),
+      "[]",
+      "{}",
+      String(options.timeout != null ? options.timeout * 1000 : -1),
+    ]);
+    return { kind: "shown" };
+  },
+};
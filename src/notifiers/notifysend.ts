@@ -0,0 +1,51 @@
+import { isCommandAvailable, NotifierBackend, runNotifier } from "./backend.js";
+
+//
+// Freedesktop notifications on Linux and BSD desktops, via libnotify's
+// notify-send. Versions from 0.7.10 support action buttons with --action,
+// waiting for the notification to close and printing the chosen action.
+//
+
+const NOTIFY_SEND_BIN = "notify-send";
+
+let actionsSupported: boolean | undefined;
+
+async function supportsActions() {
+  if (actionsSupported === undefined) {
+    const help = await runNotifier(NOTIFY_SEND_BIN, ["--help"]).catch(() => "");
+    actionsSupported = help.includes("--action");
+  }
+  return actionsSupported;
+}
+
+export const notifySend: NotifierBackend = {
+  name: "notify-send",
+  supportsActions,
+  supportsReply: async () => false,
+  isAvailable: () => isCommandAvailable(NOTIFY_SEND_BIN),
+  notify: async (options) => {
+    const args = ["--app-name", "opaws"];
+
+    if (options.timeout != null) {
+      args.push("--expire-time", String(options.timeout * 1000));
+    }
+
+    const actions =
+      options.actions?.length && (await supportsActions())
+        ? options.actions
+        : [];
+    actions.forEach((action, i) => args.push(`--action=${i}=${action}`));
+
+    args.push("--", options.title, options.message);
+
+    const output = (await runNotifier(NOTIFY_SEND_BIN, args)).trim();
+
+    if (actions.length === 0) return { kind: "shown" };
+    if (output === "") return { kind: "closed" };
+
+    const action = actions[Number(output)];
+    return action != null
+      ? { kind: "action", action }
+      : { kind: "other", activationType: output };
+  },
+};
@@ -0,0 +1,26 @@
+import { isCommandAvailable, NotifierBackend, runNotifier } from "./backend.js";
+
+//
+// macOS Notification Center without alerter. AppleScript notifications can't
+// have buttons, so actions are ignored.
+//
+
+const SCRIPT = `display notification (system attribute "OPAWS_NOTIFY_MESSAGE") with title (system attribute "OPAWS_NOTIFY_TITLE")`;
+
+export const osascript: NotifierBackend = {
+  name: "osascript",
+  supportsActions: async () => false,
+  supportsReply: async () => false,
+  isAvailable: () => isCommandAvailable("osascript"),
+  notify: async (options) => {
+    //
+    // Pass the text through the environment rather than the script, so it
+    // needs no AppleScript escaping.
+    //
+    await runNotifier("osascript", ["-e", SCRIPT], {
+      OPAWS_NOTIFY_TITLE: options.title,
+      OPAWS_NOTIFY_MESSAGE: options.message,
+    });
+    return { kind: "shown" };
+  },
+};
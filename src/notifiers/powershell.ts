@@ -0,0 +1,37 @@
+import { isCommandAvailable, NotifierBackend, runNotifier } from "./backend.js";
+
+//
+// A Windows notification-area balloon, via PowerShell and Windows Forms,
+// which need no extra modules. Balloons can't have buttons.
+//
+
+const SCRIPT = `
+Add-Type -AssemblyName System.Windows.Forms
+$icon = New-Object System.Windows.Forms.NotifyIcon
+$icon.Icon = [System.Drawing.SystemIcons]::Information
+$icon.BalloonTipTitle = $env:OPAWS_NOTIFY_TITLE
+$icon.BalloonTipText = $env:OPAWS_NOTIFY_MESSAGE
+$icon.Visible = $true
+$icon.ShowBalloonTip([int]$env:OPAWS_NOTIFY_TIMEOUT)
+Start-Sleep -Milliseconds ([int]$env:OPAWS_NOTIFY_TIMEOUT)
+$icon.Dispose()
+`;
+
+export const powershell: NotifierBackend = {
+  name: "powershell",
+  supportsActions: async () => false,
+  supportsReply: async () => false,
+  isAvailable: () => isCommandAvailable("powershell"),
+  notify: async (options) => {
+    await runNotifier(
+      "powershell",
+      ["-NoProfile", "-NonInteractive", "-Command", SCRIPT],
+      {
+        OPAWS_NOTIFY_TITLE: options.title,
+        OPAWS_NOTIFY_MESSAGE: options.message,
+        OPAWS_NOTIFY_TIMEOUT: String((options.timeout ?? 10) * 1000),
+      },
+    );
+    return { kind: "shown" };
+  },
+};
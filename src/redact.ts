@@ -0,0 +1,135 @@
+//
+// Masks secrets in anything about to be logged, so log files can be attached
+// to tickets. Values are matched both by the name of the property holding
+// them and by their shape, since secrets also turn up inside messages and
+// stack traces.
+//
+
+const REDACTED = "[REDACTED]";
+const MAX_DEPTH = 10;
+
+//
+// Property names, lowercased with separators removed, whose values are
+// always secret.
+//
+const SECRET_KEYS = new Set([
+  "secretaccesskey",
+  "awssecretaccesskey",
+  "sessiontoken",
+  "awssessiontoken",
+  "token",
+  "tokencode",
+  "totp",
+  "totpseed",
+  "password",
+  "passphrase",
+  "secret",
+  "credential",
+  "authorization",
+  "xamzsecuritytoken",
+]);
+
+//
+// Property names whose values are identifiers rather than secrets, but are
+// still better partly hidden.
+//
+const PARTIAL_KEYS = new Set(["accesskeyid", "awsaccesskeyid"]);
+
+const ACCESS_KEY_ID = /\b(?:AKIA|ASIA|AROA|AIDA|AGPA|ANPA)[A-Z0-9]{16}\b/g;
+const OTPAUTH_URI = /otpauth:\/\/[^\s"']+/g;
+//
+// The user and password in a URL, such as that of a proxy.
+//
+const URL_USERINFO = /\b([a-z][a-z0-9+.-]*:\/\/)[^\s/?#@"']+@/gi;
+//
+// Session tokens are long runs of base64; secret access keys are exactly 40
+// characters of it. Hex digests (such as git hashes) are lowercase only, so
+// requiring mixed case leaves them alone.
+//
+const BASE64_RUN = /(?<![A-Za-z0-9/+=])[A-Za-z0-9/+=]{40,}(?![A-Za-z0-9/+=])/g;
+
+function normalizeKey(key: string) {
+  return key.toLowerCase().replace(/[-_\s]/g, "");
+}
+
+function maskAccessKeyId(value: string) {
+  return value.length > 4 ? `****${value.slice(-4)}` : REDACTED;
+}
+
+function looksLikeSecret(run: string) {
+  return /[a-z]/.test(run) && /[A-Z]/.test(run) && /[0-9]/.test(run);
+}
+
+/**
+ * Masks access key IDs, secret keys, session tokens, TOTP URIs and the
+ * credentials in URLs in text.
+ */
+export function redactString(text: string) {
+  return text
+    .replace(ACCESS_KEY_ID, maskAccessKeyId)
+    .replace(OTPAUTH_URI, REDACTED)
+    .replace(URL_USERINFO, `$1${REDACTED}@`)
+    .replace(BASE64_RUN, (run) => (looksLikeSecret(run) ? REDACTED : run));
+}
+
+function redactValue(
+  value: unknown,
+  depth: number,
+  seen: WeakSet<object>,
+): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value == null || typeof value !== "object") return value;
+  if (value instanceof Date) return value;
+  if (seen.has(value) || depth > MAX_DEPTH) return "[...]";
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((v) => redactValue(v, depth + 1, seen));
+  }
+
+  //
+  // An error's name and message aren't enumerable, so would otherwise be
+  // dropped. Its other properties, such as AWS SDK request metadata, are
+  // walked like any other object's.
+  //
+  const source: object =
+    value instanceof Error
+      ? { ...value, name: value.name, message: value.message }
+      : value;
+
+  return Object.fromEntries(
+    Object.entries(source).map(([key, v]) => [
+      key,
+      redactProperty(key, v, depth, seen),
+    ]),
+  );
+}
+
+function redactProperty(
+  key: string,
+  value: unknown,
+  depth: number,
+  seen: WeakSet<object>,
+): unknown {
+  const normalized = normalizeKey(key);
+  if (value != null && SECRET_KEYS.has(normalized)) return REDACTED;
+  if (typeof value === "string" && PARTIAL_KEYS.has(normalized)) {
+    return maskAccessKeyId(value);
+  }
+  return redactValue(value, depth + 1, seen);
+}
+
+/**
+ * Returns a copy of a log record's properties with secrets masked.
+ */
+export function redact(
+  record: Record<string, unknown>,
+): Record<string, unknown> {
+  const seen = new WeakSet<object>();
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      redactProperty(key, value, 0, seen),
+    ]),
+  );
+}
@@ -0,0 +1,311 @@
+import {
+  createHash,
+  createPrivateKey,
+  KeyObject,
+  sign,
+  X509Certificate,
+} from "crypto";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+
+import { Credentials } from "@aws-sdk/client-sts";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import { z } from "zod";
+
+import { OpawsError } from "./errors.js";
+import { logger } from "./logger.js";
+import { RolesAnywhereCertificate } from "./sources/index.js";
+import { getPartition, getProxy, StsOptions } from "./sts.js";
+
+//
+// IAM Roles Anywhere exchanges an X.509 certificate for temporary
+// credentials. Its CreateSession request is signed like SigV4, but with the
+// certificate's private key in place of a secret access key:
+// https://docs.aws.amazon.com/rolesanywhere/latest/userguide/authentication-sign-process.html
+//
+export type RolesAnywhereOptions = Pick<StsOptions, "proxy"> & {
+  rolesAnywhereEndpoint?: string;
+};
+
+const SERVICE = "rolesanywhere";
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+const createSessionResponseSchema = z.object({
+  credentialSet: z
+    .array(
+      z.object({
+        credentials: z.object({
+          accessKeyId: z.string(),
+          secretAccessKey: z.string(),
+          sessionToken: z.string(),
+          expiration: z.string(),
+        }),
+      }),
+    )
+    .min(1),
+});
+
+function sha256Hex(data: string) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * The region of a trust anchor, from its ARN, e.g. eu-west-1 for
+ * arn:aws:rolesanywhere:eu-west-1:123456789012:trust-anchor/...
+ */
+function getRegion(trustAnchorArn: string) {
+  const [arn, , service, region] = trustAnchorArn.split(":");
+  if (arn !== "arn" || service !== SERVICE || !region) {
+    throw new OpawsError(
+      "item-schema",
+      `"${trustAnchorArn}" isn't an IAM Roles Anywhere trust anchor ARN.`,
+    );
+  }
+  return region;
+}
+
+function getDefaultEndpoint(region: string) {
+  const suffix =
+    getPartition(region) === "aws-cn" ? "amazonaws.com.cn" : "amazonaws.com";
+  return `https://${SERVICE}.${region}.${suffix}`;
+}
+
+function parseCertificates(pem: string, description: string) {
+  const blocks =
+    pem.match(
+      /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g,
+    ) ?? [];
+  if (blocks.length === 0) {
+    throw new OpawsError(
+      "item-schema",
+      `The ${description} isn't a PEM certificate.`,
+    );
+  }
+  return blocks.map((block) => new X509Certificate(block));
+}
+
+function parsePrivateKey(pem: string) {
+  try {
+    return createPrivateKey(pem);
+  } catch (e) {
+    throw new OpawsError(
+      "item-schema",
+      `The private key isn't an unencrypted PEM key: ${(e as Error).message}`,
+      { cause: e },
+    );
+  }
+}
+
+function getSigningAlgorithm(privateKey: KeyObject) {
+  switch (privateKey.asymmetricKeyType) {
+    case "rsa":
+      return "AWS4-X509-RSA-SHA256";
+    case "ec":
+      return "AWS4-X509-ECDSA-SHA256";
+    default:
+      throw new OpawsError(
+        "item-schema",
+        `IAM Roles Anywhere needs an RSA or EC private key, not ${privateKey.asymmetricKeyType ?? "an unknown kind"}.`,
+      );
+  }
+}
+
+/**
+ * The headers for a signed CreateSession request. The certificate's serial
+ * number, in decimal, takes the place of the access key ID.
+ */
+function signRequest(
+  url: URL,
+  body: string,
+  certificate: X509Certificate,
+  chain: X509Certificate[],
+  privateKey: KeyObject,
+  region: string,
+  now: Date,
+) {
+  const algorithm = getSigningAlgorithm(privateKey);
+  const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, "");
+  const scope = `${amzDate.slice(0, 8)}/${region}/${SERVICE}/aws4_request`;
+
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    host: url.host,
+    "x-amz-date": amzDate,
+    "x-amz-x509": certificate.raw.toString("base64"),
+  };
+  if (chain.length > 0) {
+    headers["x-amz-x509-chain"] = chain
+      .map((c) => c.raw.toString("base64"))
+      .join(",");
+  }
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalRequest = [
+    "POST",
+    url.pathname,
+    "",
+    signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders.join(";"),
+    sha256Hex(body),
+  ].join("\n");
+  const stringToSign = [
+    algorithm,
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+  const signature = sign("sha256", Buffer.from(stringToSign), privateKey);
+
+  const serialNumber = BigInt(`0x${certificate.serialNumber}`).toString(10);
+  headers.authorization = `${algorithm} Credential=${serialNumber}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature.toString("hex")}`;
+  return headers;
+}
+
+function post(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  proxy: string | undefined,
+): Promise<{ status: number; body: string }> {
+  //
+  // As for STS, the same agent tunnels plain HTTP to a local stand-in.
+  //
+  const agent = proxy != null ? new HttpsProxyAgent(proxy) : undefined;
+  const request = url.protocol === "http:" ? httpRequest : httpsRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { method: "POST", headers, agent, timeout: REQUEST_TIMEOUT_MS },
+      (res) => {
+        let data = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => (data += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode ?? 0, body: data }),
+        );
+        res.on("error", reject);
+      },
+    );
+    req.on("timeout", () =>
+      req.destroy(new Error(`IAM Roles Anywhere didn't respond in time.`)),
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+function getErrorMessage(body: string) {
+  const parsed = z.object({ message: z.string() }).safeParse(parseJson(body));
+  return parsed.success ? parsed.data.message : body.trim();
+}
+
+/**
+ * Creates a session for the certificate's role with IAM Roles Anywhere. The
+ * duration defaults to the Roles Anywhere profile's, an hour unless it was
+ * changed.
+ */
+export async function createRolesAnywhereSession(
+  certificate: RolesAnywhereCertificate,
+  durationSeconds: number | undefined,
+  options: RolesAnywhereOptions,
+): Promise<Credentials> {
+  const region = getRegion(certificate.trustAnchorArn);
+  //
+  // Intermediates can follow the certificate in its own field, too.
+  //
+  const [leaf, ...bundled] = parseCertificates(
+    certificate.certificate,
+    "certificate",
+  );
+  const chain = [
+    ...bundled,
+    ...(certificate.certificateChain != null
+      ? parseCertificates(certificate.certificateChain, "certificate chain")
+      : []),
+  ];
+  const privateKey = parsePrivateKey(certificate.privateKey);
+
+  if (!leaf.checkPrivateKey(privateKey)) {
+    throw new OpawsError(
+      "item-schema",
+      `The private key doesn't belong to the certificate.`,
+    );
+  }
+
+  //
+  // Caught here, as Roles Anywhere only says access was denied.
+  //
+  const now = new Date();
+  if (new Date(leaf.validTo) < now) {
+    throw new OpawsError(
+      "roles-anywhere-denied",
+      `The certificate expired on ${new Date(leaf.validTo).toISOString()}.`,
+    );
+  }
+
+  const url = new URL(
+    "/sessions",
+    options.rolesAnywhereEndpoint ?? getDefaultEndpoint(region),
+  );
+  const body = JSON.stringify({
+    durationSeconds,
+    profileArn: certificate.profileArn,
+    roleArn: certificate.roleArn,
+    trustAnchorArn: certificate.trustAnchorArn,
+  });
+
+  const proxy = getProxy(options, url.toString());
+  logger.debug(`Creating IAM Roles Anywhere session`, {
+    url: url.toString(),
+    proxy,
+    subject: leaf.subject,
+    trustAnchorArn: certificate.trustAnchorArn,
+    profileArn: certificate.profileArn,
+    roleArn: certificate.roleArn,
+  });
+
+  const response = await post(
+    url,
+    signRequest(url, body, leaf, chain, privateKey, region, now),
+    body,
+    proxy,
+  );
+
+  if (response.status === 403) {
+    throw new OpawsError(
+      "roles-anywhere-denied",
+      `IAM Roles Anywhere refused to create a session: ${getErrorMessage(response.body)}`,
+    );
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(
+      `IAM Roles Anywhere CreateSession failed with status ${response.status}: ${getErrorMessage(response.body)}`,
+    );
+  }
+
+  const parsed = createSessionResponseSchema.safeParse(
+    parseJson(response.body),
+  );
+  if (!parsed.success) {
+    throw new Error(
+      "IAM Roles Anywhere CreateSession returned no credentials.",
+    );
+  }
+
+  const { credentials } = parsed.data.credentialSet[0];
+  return {
+    AccessKeyId: credentials.accessKeyId,
+    SecretAccessKey: credentials.secretAccessKey,
+    SessionToken: credentials.sessionToken,
+    Expiration: new Date(credentials.expiration),
+  };
+}
@@ -0,0 +1,314 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { isIP } from "net";
+
+import { Credentials } from "@aws-sdk/client-sts";
+import { Option } from "@commander-js/extra-typings";
+
+import {
+  createCredentialCommand,
+  CredentialOptions,
+  getOrFetchCredentials,
+} from "./authenticate.js";
+import { CachedCredentials } from "./cache.js";
+import { classifyError, getErrorStacks } from "./errors.js";
+import { configureDebugLogging, logger } from "./logger.js";
+import { listenOnSocket, removeStaleSocket } from "./util.js";
+
+//
+// Serves credentials over HTTP to SDKs that can't run credential_process,
+// such as those in local containers and VMs. Two protocols are supported:
+//
+// - The ECS container credentials endpoint, used by SDKs when
+//   AWS_CONTAINER_CREDENTIALS_FULL_URI is set. Requests must carry the token
+//   from AWS_CONTAINER_AUTHORIZATION_TOKEN.
+// - Optionally, the IMDSv2 credentials paths, used by SDKs when
+//   AWS_EC2_METADATA_SERVICE_ENDPOINT is set. IMDS has no shared secret, so
+//   any local process can read the credentials.
+//
+
+const CREDENTIALS_PATH = "/credentials";
+const IMDS_TOKEN_PATH = "/latest/api/token";
+const IMDS_CREDENTIALS_PATH = "/latest/meta-data/iam/security-credentials/";
+const IMDS_MAX_TOKEN_TTL_SECONDS = 6 * 60 * 60;
+
+type ServeOptions = ReturnType<typeof command.opts>;
+
+type HttpResponse = {
+  status: number;
+  body: string;
+  contentType?: string;
+};
+
+function isLoopbackHost(host: string) {
+  if (host === "localhost") return true;
+  switch (isIP(host)) {
+    case 4:
+      return host.startsWith("127.");
+    case 6:
+      return host === "::1";
+    default:
+      return false;
+  }
+}
+
+function tokensEqual(a: string, b: string) {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+function json(status: number, body: unknown): HttpResponse {
+  return {
+    status,
+    body: JSON.stringify(body, null, 2),
+    contentType: "application/json",
+  };
+}
+
+function text(status: number, body: string): HttpResponse {
+  return { status, body, contentType: "text/plain" };
+}
+
+/**
+ * Name of the pretend instance role in IMDS responses.
+ */
+function getImdsRoleName(options: CredentialOptions) {
+  return options.roleArn?.split("/").pop() ?? "opaws";
+}
+
+function createCredentialProvider(options: CredentialOptions) {
+  //
+  // Concurrent requests share one fetch, rather than queueing on the session
+  // lock one after another.
+  //
+  let pending: Promise<CachedCredentials | Credentials> | undefined;
+
+  return () => {
+    pending ??= getOrFetchCredentials(options).finally(() => {
+      pending = undefined;
+    });
+    return pending;
+  };
+}
+
+function createRequestHandler(options: ServeOptions, token: string) {
+  const getCredentials = createCredentialProvider(options);
+  const imdsTokens = new Map<string, number>();
+
+  const isValidImdsToken = (value: string | string[] | undefined) => {
+    if (typeof value !== "string") return false;
+    const expiresAt = imdsTokens.get(value);
+    if (expiresAt == null) return false;
+    if (expiresAt < Date.now()) {
+      imdsTokens.delete(value);
+      return false;
+    }
+    return true;
+  };
+
+  const handleEcs = async (req: IncomingMessage): Promise<HttpResponse> => {
+    if (req.method !== "GET") return text(405, "Method not allowed");
+
+    const authorization = req.headers.authorization;
+    if (authorization == null || !tokensEqual(authorization, token)) {
+      return json(401, { message: "Invalid authorization token" });
+    }
+
+    const creds = await getCredentials();
+    return json(200, {
+      AccessKeyId: creds.AccessKeyId,
+      SecretAccessKey: creds.SecretAccessKey,
+      Token: creds.SessionToken,
+      Expiration: creds.Expiration?.toISOString(),
+    });
+  };
+
+  const handleImdsToken = (req: IncomingMessage): HttpResponse => {
+    if (req.method !== "PUT") return text(405, "Method not allowed");
+
+    const ttl = Number(req.headers["x-aws-ec2-metadata-token-ttl-seconds"]);
+    if (!Number.isInteger(ttl) || ttl < 1 || ttl > IMDS_MAX_TOKEN_TTL_SECONDS) {
+      return text(400, "Invalid TTL");
+    }
+
+    const imdsToken = randomBytes(32).toString("base64url");
+    imdsTokens.set(imdsToken, Date.now() + ttl * 1000);
+    return text(200, imdsToken);
+  };
+
+  const handleImdsCredentials = async (
+    req: IncomingMessage,
+    path: string,
+  ): Promise<HttpResponse> => {
+    if (req.method !== "GET") return text(405, "Method not allowed");
+    if (!isValidImdsToken(req.headers["x-aws-ec2-metadata-token"])) {
+      return text(401, "Unauthorized");
+    }
+
+    const roleName = getImdsRoleName(options);
+    const requested = path.slice(IMDS_CREDENTIALS_PATH.length);
+    if (requested === "") return text(200, roleName);
+    if (requested !== roleName) return text(404, "Not found");
+
+    const creds = await getCredentials();
+    return json(200, {
+      Code: "Success",
+      LastUpdated: new Date().toISOString(),
+      Type: "AWS-HMAC",
+      AccessKeyId: creds.AccessKeyId,
+      SecretAccessKey: creds.SecretAccessKey,
+      Token: creds.SessionToken,
+      Expiration: creds.Expiration?.toISOString(),
+    });
+  };
+
+  const route = async (req: IncomingMessage): Promise<HttpResponse> => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === CREDENTIALS_PATH) return handleEcs(req);
+    if (options.imds) {
+      if (path === IMDS_TOKEN_PATH) return handleImdsToken(req);
+      if (path.startsWith(IMDS_CREDENTIALS_PATH)) {
+        return handleImdsCredentials(req, path);
+      }
+    }
+    return text(404, "Not found");
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    let response: HttpResponse;
+    try {
+      response = await route(req);
+    } catch (e) {
+      logger.error(`Failed to serve credentials`, e);
+      logger.debug(`Error details`, { stacks: getErrorStacks(e) });
+      const error = classifyError(e);
+      response = json(500, {
+        message: error.message || "Failed to get credentials",
+        code: error.kind,
+        hint: error.hint,
+      });
+    }
+
+    //
+    // The URL and status only; never headers, which carry the tokens.
+    //
+    const line = `${req.method} ${req.url} ${response.status}`;
+    logger.info(`Request: ${line}`);
+    console.log(`${new Date().toISOString()} ${line}`);
+
+    res.writeHead(response.status, {
+      "Content-Type": response.contentType ?? "text/plain",
+    });
+    res.end(response.body);
+  };
+}
+
+async function listen(server: Server, options: ServeOptions) {
+  if (options.socket == null) {
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(options.port, options.host, resolve);
+    });
+    return;
+  }
+
+  await listenOnSocket(server, options.socket);
+}
+
+function printUsage(server: Server, options: ServeOptions, token: string) {
+  if (options.socket != null) {
+    console.log(`Serving credentials on unix socket ${options.socket}.`);
+    console.log(`Authorization token: ${token}`);
+    return;
+  }
+
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+  const base = `http://${host}:${port}`;
+
+  console.log(`Serving credentials on ${base}. Set in the client:`);
+  console.log(
+    `  AWS_CONTAINER_CREDENTIALS_FULL_URI=${base}${CREDENTIALS_PATH}`,
+  );
+  console.log(`  AWS_CONTAINER_AUTHORIZATION_TOKEN=${token}`);
+  if (options.imds) {
+    console.log(`or, for IMDS:`);
+    console.log(`  AWS_EC2_METADATA_SERVICE_ENDPOINT=${base}`);
+  }
+}
+
+async function serve(options: ServeOptions) {
+  if (options.debug) {
+    configureDebugLogging();
+  }
+
+  if (options.socket == null && !isLoopbackHost(options.host)) {
+    command.error(
+      `error: --host must be a loopback address, such as 127.0.0.1 or ::1`,
+    );
+  }
+
+  const token = options.token ?? randomBytes(32).toString("base64url");
+  const server = createServer(createRequestHandler(options, token));
+
+  try {
+    if (options.socket != null) {
+      await removeStaleSocket(options.socket);
+    }
+    await listen(server, options);
+  } catch (e) {
+    console.error(`Could not start the server: ${(e as Error).message}`);
+    process.exit(1);
+  }
+  printUsage(server, options, token);
+  logger.info(`Serving credentials`, {
+    socket: options.socket,
+    host: options.host,
+    port: options.port,
+    imds: options.imds,
+  });
+
+  const shutdown = () => {
+    logger.info(`Shutting down`);
+    server.close();
+    server.closeAllConnections();
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+export const command = createCredentialCommand("serve")
+  .option(
+    "--host <host>",
+    "Loopback address to listen on. Other addresses are refused.",
+    "127.0.0.1",
+  )
+  .option(
+    "--port <port>",
+    "Port to listen on. 0 picks a free port.",
+    (value) => parseInt(value, 10),
+    9911,
+  )
+  .addOption(
+    new Option(
+      "--socket <path>",
+      "Listen on a unix socket instead of a TCP port.",
+    ).conflicts(["host", "port"]),
+  )
+  .addOption(
+    new Option(
+      "--token <token>",
+      "Token clients must send in the Authorization header. Generated if not given.",
+    ).env("OPAWS_SERVE_TOKEN"),
+  )
+  .option(
+    "--imds",
+    "Also serve credentials the way the EC2 instance metadata service (IMDSv2) does. IMDS requests need no authorization token.",
+  )
+  .description(
+    "Serves credentials over HTTP in the format of the ECS container credentials endpoint.",
+  )
+  .action(serve);
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+import { logger } from "../logger.js";
+
+import {
+  AwsKeys,
+  buildAwsKeys,
+  fieldLabel,
+  runSourceCli,
+  SourceOptions,
+} from "./keys.js";
+
+//
+// Reads keys from a Bitwarden item with the bw CLI, which must already be
+// unlocked (BW_SESSION set). Custom fields named like the 1Password ones take
+// precedence; otherwise the login username, password and TOTP seed are used.
+//
+
+const bitwardenItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  login: z
+    .object({
+      username: z.string().nullish(),
+      password: z.string().nullish(),
+      totp: z.string().nullish(),
+    })
+    .nullish(),
+  fields: z
+    .array(
+      z.object({ name: z.string().nullish(), value: z.string().nullish() }),
+    )
+    .nullish(),
+});
+
+export async function getBitwardenAwsKeys(
+  options: SourceOptions,
+): Promise<AwsKeys> {
+  logger.debug(`Looking for item in Bitwarden`, { item: options.opItem });
+
+  const item = bitwardenItemSchema.parse(
+    JSON.parse(await runSourceCli("bw", ["get", "item", options.opItem])),
+  );
+
+  logger.debug(`Found Bitwarden item`, { id: item.id, name: item.name });
+
+  const field = (name: Parameters<typeof fieldLabel>[1]) => {
+    const label = fieldLabel(options, name);
+    return item.fields?.find((f) => f.name === label)?.value ?? undefined;
+  };
+
+  const keys = buildAwsKeys(`Bitwarden item "${item.name}" (${item.id})`, {
+    accessKeyId: field("access-key-id") ?? item.login?.username ?? undefined,
+    secretAccessKey:
+      field("secret-access-key") ?? item.login?.password ?? undefined,
+    mfaSerial: field("mfa-serial"),
+    totpSeed: field("totp") ?? item.login?.totp ?? undefined,
+  });
+  return { ...keys, itemId: item.id };
+}
@@ -0,0 +1,22 @@
+import { AwsKeys, buildAwsKeys } from "./keys.js";
+
+//
+// Reads keys from environment variables, e.g. as injected by a CI system or
+// another secrets tool. The item name is only used to key the cache.
+//
+
+export const ENV_VARS = {
+  accessKeyId: "OPAWS_ACCESS_KEY_ID",
+  secretAccessKey: "OPAWS_SECRET_ACCESS_KEY",
+  mfaSerial: "OPAWS_MFA_SERIAL",
+  totpSeed: "OPAWS_TOTP_SEED",
+};
+
+export async function getEnvAwsKeys(): Promise<AwsKeys> {
+  return buildAwsKeys(`Environment (${Object.values(ENV_VARS).join(", ")})`, {
+    accessKeyId: process.env[ENV_VARS.accessKeyId],
+    secretAccessKey: process.env[ENV_VARS.secretAccessKey],
+    mfaSerial: process.env[ENV_VARS.mfaSerial],
+    totpSeed: process.env[ENV_VARS.totpSeed],
+  });
+}
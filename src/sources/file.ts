@@ -0,0 +1,175 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+
+import { Command } from "@commander-js/extra-typings";
+import { z } from "zod";
+
+import { decrypt, deriveKey, encrypt, generateSalt } from "../crypto.js";
+import { logger } from "../logger.js";
+import {
+  isFileNotFoundError,
+  OPAWS_CONFIG_DIRECTORY,
+  writeFileAtomic,
+} from "../util.js";
+
+import { AwsKeys, buildAwsKeys, SourceOptions } from "./keys.js";
+
+//
+// Reads keys from a local file, encrypted with a key derived from the
+// passphrase in OPAWS_KEYS_PASSPHRASE. The file holds any number of items,
+// managed with `opaws util keys`.
+//
+
+const PASSPHRASE_ENV_VAR = "OPAWS_KEYS_PASSPHRASE";
+const AAD = "opaws-keys";
+
+const keysFileSchema = z.object({
+  version: z.literal(1),
+  salt: z.string().base64(),
+  iv: z.string().base64(),
+  tag: z.string().base64(),
+  data: z.string().base64(),
+});
+
+const storedKeysSchema = z.record(
+  z.object({
+    accessKeyId: z.string(),
+    secretAccessKey: z.string(),
+    mfaSerial: z.string().optional(),
+    totpSeed: z.string().optional(),
+  }),
+);
+
+type StoredKeys = z.infer<typeof storedKeysSchema>;
+
+export function getKeysFilename() {
+  return (
+    process.env.OPAWS_KEYS_FILE ?? join(OPAWS_CONFIG_DIRECTORY, "keys.enc")
+  );
+}
+
+function getPassphrase() {
+  const passphrase = process.env[PASSPHRASE_ENV_VAR];
+  if (!passphrase) {
+    throw new Error(
+      `Set ${PASSPHRASE_ENV_VAR} to the passphrase for ${getKeysFilename()}.`,
+    );
+  }
+  return passphrase;
+}
+
+async function readKeysFile(): Promise<StoredKeys> {
+  const filename = getKeysFilename();
+
+  let data: string;
+  try {
+    data = (await readFile(filename)).toString();
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+    return {};
+  }
+
+  const envelope = keysFileSchema.parse(JSON.parse(data));
+  const key = await deriveKey(getPassphrase(), envelope.salt);
+
+  let plaintext: string;
+  try {
+    plaintext = decrypt(key, AAD, envelope);
+  } catch (e) {
+    logger.debug(`Failed to decrypt keys file`, { filename, error: e });
+    throw new Error(
+      `Could not decrypt ${filename}. Check ${PASSPHRASE_ENV_VAR}.`,
+    );
+  }
+
+  return storedKeysSchema.parse(JSON.parse(plaintext));
+}
+
+async function writeKeysFile(keys: StoredKeys) {
+  //
+  // A fresh salt on every write means a fresh key, so no key/IV pair is ever
+  // reused across writes.
+  //
+  const salt = generateSalt();
+  const key = await deriveKey(getPassphrase(), salt);
+  const envelope = {
+    version: 1,
+    salt,
+    ...encrypt(key, AAD, JSON.stringify(keys)),
+  };
+  await writeFileAtomic(getKeysFilename(), JSON.stringify(envelope, null, 2));
+}
+
+export async function getFileAwsKeys(options: SourceOptions): Promise<AwsKeys> {
+  const keys = (await readKeysFile())[options.opItem];
+  if (keys == null) {
+    throw new Error(`No item ${options.opItem} in ${getKeysFilename()}.`);
+  }
+  return buildAwsKeys(`Item ${options.opItem} in ${getKeysFilename()}`, keys);
+}
+
+async function readStdin() {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+  return Buffer.concat(chunks).toString().trim();
+}
+
+export const command = new Command("keys")
+  .description(
+    `Manages the encrypted keys file used by --source file. The passphrase is read from ${PASSPHRASE_ENV_VAR}.`,
+  )
+  .addCommand(
+    new Command("set")
+      .argument("<item>", "Name of the item.")
+      .requiredOption("--access-key-id <access key id>", "AWS access key ID.")
+      .option("--mfa-serial <mfa serial>", "ARN of the MFA device.")
+      .option(
+        "--totp-seed <seed>",
+        "MFA seed, in base32 or as an otpauth:// URI.",
+      )
+      .description(
+        "Adds or replaces an item. The secret access key is read from stdin.",
+      )
+      .action(async (item, options) => {
+        const secretAccessKey = await readStdin();
+        if (!secretAccessKey) {
+          console.error("No secret access key given on stdin.");
+          process.exit(1);
+        }
+
+        const keys = await readKeysFile();
+        keys[item] = {
+          accessKeyId: options.accessKeyId,
+          secretAccessKey,
+          mfaSerial: options.mfaSerial,
+          totpSeed: options.totpSeed,
+        };
+        await writeKeysFile(keys);
+        console.log(`Saved ${item} to ${getKeysFilename()}.`);
+      }),
+  )
+  .addCommand(
+    new Command("remove")
+      .argument("<item>", "Name of the item.")
+      .description("Removes an item.")
+      .action(async (item) => {
+        const keys = await readKeysFile();
+        if (keys[item] == null) {
+          console.error(`No item ${item} in ${getKeysFilename()}.`);
+          process.exit(1);
+        }
+        delete keys[item];
+        await writeKeysFile(keys);
+        console.log(`Removed ${item} from ${getKeysFilename()}.`);
+      }),
+  )
+  .addCommand(
+    new Command("list").description("Lists the items.").action(async () => {
+      const keys = await readKeysFile();
+      for (const [item, value] of Object.entries(keys)) {
+        console.log(
+          `${item}: access key ...${value.accessKeyId.slice(-4)}${value.mfaSerial ? `, MFA ${value.mfaSerial}` : ""}`,
+        );
+      }
+    }),
+  );
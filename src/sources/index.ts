@@ -0,0 +1,63 @@
+import { getBitwardenAwsKeys } from "./bitwarden.js";
+import { getEnvAwsKeys } from "./env.js";
+import { getFileAwsKeys } from "./file.js";
+import { AwsKeys, RolesAnywhereCertificate, SourceOptions } from "./keys.js";
+import { get1pAwsKeys, get1pRolesAnywhereCertificate } from "./onepassword.js";
+import { getPassAwsKeys } from "./pass.js";
+
+export type {
+  AwsKeys,
+  RolesAnywhereCertificate,
+  SourceOptions,
+} from "./keys.js";
+
+/**
+ * Where long-term keys (and MFA codes) can come from. Each returns the same
+ * AwsKeys, read fresh on every call so that one-time passwords are current.
+ */
+const SOURCES = {
+  "1password": async (options) => get1pAwsKeys(options),
+  bitwarden: getBitwardenAwsKeys,
+  pass: (options) => getPassAwsKeys("pass", options),
+  gopass: (options) => getPassAwsKeys("gopass", options),
+  file: getFileAwsKeys,
+  env: getEnvAwsKeys,
+} satisfies Record<string, (options: SourceOptions) => Promise<AwsKeys>>;
+
+export type SourceName = keyof typeof SOURCES;
+
+export const SOURCE_NAMES = Object.keys(SOURCES) as SourceName[];
+
+export const DEFAULT_SOURCE: SourceName = "1password";
+
+export function getAwsKeys(
+  source: SourceName,
+  options: SourceOptions,
+): Promise<AwsKeys> {
+  return SOURCES[source](options);
+}
+
+//
+// Sources that can hold an IAM Roles Anywhere certificate instead of keys.
+//
+const CERTIFICATE_SOURCES: Partial<
+  Record<
+    SourceName,
+    (options: SourceOptions) => Promise<RolesAnywhereCertificate>
+  >
+> = {
+  "1password": async (options) => get1pRolesAnywhereCertificate(options),
+};
+
+export function getRolesAnywhereCertificate(
+  source: SourceName,
+  options: SourceOptions,
+): Promise<RolesAnywhereCertificate> {
+  const read = CERTIFICATE_SOURCES[source];
+  if (read == null) {
+    throw new Error(
+      `The ${source} source can't hold IAM Roles Anywhere certificates. Use ${Object.keys(CERTIFICATE_SOURCES).join(" or ")}.`,
+    );
+  }
+  return read(options);
+}
@@ -0,0 +1,176 @@
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { promisify } from "util";
+
+import type { KeyOrigin } from "../cache.js";
+import { OpawsError } from "../errors.js";
+import { generateTotp } from "../totp.js";
+import { isFileNotFoundError } from "../util.js";
+
+import {
+  DEFAULT_FIELD_LABELS,
+  OpFieldMapping,
+  OpFieldName,
+} from "./onepassword.js";
+
+const execFileAsync = promisify(execFile);
+
+export type AwsKeys = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** The source's own ID and version for the item, if it has them. */
+  itemId?: string;
+  itemVersion?: number;
+} & (
+  | { totp: undefined; mfaSerial: undefined }
+  //
+  // Without a one-time password, the MFA code has to come from elsewhere;
+  // see mfa.ts.
+  //
+  | { totp: string | undefined; mfaSerial: string }
+);
+
+/**
+ * An X.509 certificate and its private key, in PEM, for IAM Roles Anywhere,
+ * with the ARNs sessions are created with.
+ */
+export type RolesAnywhereCertificate = {
+  certificate: string;
+  privateKey: string;
+  /** Intermediate certificates between it and the trust anchor, if any. */
+  certificateChain?: string;
+  trustAnchorArn: string;
+  profileArn: string;
+  roleArn: string;
+  itemId?: string;
+  itemVersion?: number;
+};
+
+/**
+ * Identifies the item holding the keys. The op* names predate other sources;
+ * each source interprets them as described in its own module.
+ */
+export type SourceOptions = {
+  opItem: string;
+  opVault?: string;
+  opAccount?: string;
+  opField?: OpFieldMapping;
+};
+
+export type RawAwsKeys = {
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  mfaSerial?: string;
+  totp?: string;
+  totpSeed?: string;
+};
+
+/**
+ * Validates values read from a source and turns them into AwsKeys,
+ * generating a one-time password from the seed if the source can't produce
+ * one itself. An MFA serial without a seed is allowed.
+ */
+export function buildAwsKeys(description: string, raw: RawAwsKeys): AwsKeys {
+  const totp =
+    raw.totp ?? (raw.totpSeed ? generateTotp(raw.totpSeed) : undefined);
+
+  const missing: string[] = [];
+  if (!raw.accessKeyId) missing.push("access-key-id");
+  if (!raw.secretAccessKey) missing.push("secret-access-key");
+  if (!raw.mfaSerial && totp) missing.push("mfa-serial");
+
+  if (missing.length > 0) {
+    throw new OpawsError(
+      "item-schema",
+      `${description} is missing ${missing.join(", ")}.`,
+    );
+  }
+
+  return {
+    accessKeyId: raw.accessKeyId,
+    secretAccessKey: raw.secretAccessKey,
+    mfaSerial: raw.mfaSerial || undefined,
+    totp,
+  } as AwsKeys;
+}
+
+/**
+ * Identifies the keys credentials were issued from, without revealing them,
+ * so cached credentials can be matched against the keys now in the source.
+ */
+export function getKeyOrigin(keys: AwsKeys): KeyOrigin {
+  const fingerprint = createHash("sha256")
+    .update(`${keys.accessKeyId}:${keys.secretAccessKey}`)
+    .digest("hex")
+    .slice(0, 16);
+  return {
+    keyFingerprint: fingerprint,
+    itemId: keys.itemId,
+    itemVersion: keys.itemVersion,
+  };
+}
+
+/**
+ * Like getKeyOrigin, for credentials issued from a certificate.
+ */
+export function getCertificateOrigin(
+  certificate: RolesAnywhereCertificate,
+): KeyOrigin {
+  const fingerprint = createHash("sha256")
+    .update(`${certificate.certificate.trim()}:${certificate.roleArn}`)
+    .digest("hex")
+    .slice(0, 16);
+  return {
+    keyFingerprint: fingerprint,
+    itemId: certificate.itemId,
+    itemVersion: certificate.itemVersion,
+  };
+}
+
+/**
+ * Whether two origins are the same keys. Credentials of unknown origin, from
+ * before origins were recorded, match nothing.
+ */
+export function isSameKeyOrigin(
+  a: KeyOrigin | undefined,
+  b: KeyOrigin | undefined,
+) {
+  return (
+    a != null &&
+    b != null &&
+    a.keyFingerprint === b.keyFingerprint &&
+    a.itemId === b.itemId &&
+    a.itemVersion === b.itemVersion
+  );
+}
+
+/**
+ * The label to look for a value under, honouring --op-field overrides, for
+ * sources that store values as named fields.
+ */
+export function fieldLabel(options: SourceOptions, name: OpFieldName) {
+  return options.opField?.[name] ?? DEFAULT_FIELD_LABELS[name];
+}
+
+/**
+ * Runs a source's command-line tool and returns its stdout.
+ */
+export async function runSourceCli(
+  bin: string,
+  args: string[],
+  env?: NodeJS.ProcessEnv,
+): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(bin, args, {
+      env: { ...process.env, ...env },
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (e) {
+    if (isFileNotFoundError(e)) {
+      throw new Error(`'${bin}' was not found on PATH.`);
+    }
+    const stderr = (e as { stderr?: string }).stderr?.trim();
+    throw new Error(`'${bin} ${args[0]}' failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
@@ -0,0 +1,417 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import op, { Field, Item, OutputCategory } from "@1password/op-js";
+import { InvalidArgumentError } from "@commander-js/extra-typings";
+import { z } from "zod";
+
+import { OpawsError } from "../errors.js";
+import { logger } from "../logger.js";
+
+import { AwsKeys, RolesAnywhereCertificate, SourceOptions } from "./keys.js";
+
+export const OP_FIELD_NAMES = [
+  "access-key-id",
+  "secret-access-key",
+  "mfa-serial",
+  "totp",
+  "certificate",
+  "private-key",
+  "certificate-chain",
+  "trust-anchor-arn",
+  "profile-arn",
+  "role-arn",
+] as const;
+
+export type OpFieldName = (typeof OP_FIELD_NAMES)[number];
+
+//
+// An item holds either access keys, or an IAM Roles Anywhere certificate.
+//
+const KEY_FIELD_NAMES = [
+  "access-key-id",
+  "secret-access-key",
+  "mfa-serial",
+  "totp",
+] as const satisfies readonly OpFieldName[];
+
+const CERTIFICATE_FIELD_NAMES = [
+  "certificate",
+  "private-key",
+  "certificate-chain",
+  "trust-anchor-arn",
+  "profile-arn",
+  "role-arn",
+] as const satisfies readonly OpFieldName[];
+
+/**
+ * Overrides for where each value is found in the item. Each selector is a
+ * field label or ID, `<section>/<field>` for a section-scoped field, or an
+ * `op://` secret reference.
+ */
+export type OpFieldMapping = Partial<Record<OpFieldName, string>>;
+
+export const DEFAULT_FIELD_LABELS: Record<OpFieldName, string> = {
+  "access-key-id": "access key id",
+  "secret-access-key": "secret access key",
+  "mfa-serial": "mfa serial",
+  totp: "one-time password",
+  certificate: "certificate",
+  "private-key": "private key",
+  "certificate-chain": "certificate chain",
+  "trust-anchor-arn": "trust anchor arn",
+  "profile-arn": "profile arn",
+  "role-arn": "role arn",
+};
+
+//
+// Built-in item categories have their own fields for the key pair. These are
+// tried after the default labels, so a custom "access key id" field on such
+// an item still wins.
+//
+const CATEGORY_FIELD_LABELS: Partial<
+  Record<OutputCategory, Partial<Record<OpFieldName, string>>>
+> = {
+  API_CREDENTIAL: {
+    "access-key-id": "username",
+    "secret-access-key": "credential",
+  },
+  LOGIN: {
+    "access-key-id": "username",
+    "secret-access-key": "password",
+  },
+};
+
+const stringField = z.object({
+  type: z.union([z.literal("STRING"), z.literal("CONCEALED")]),
+  value: z.string().min(1),
+});
+
+export const opFieldSchemas = {
+  "access-key-id": stringField,
+  "secret-access-key": stringField,
+  "mfa-serial": stringField,
+  totp: z.object({
+    type: z.literal("OTP"),
+    totp: z.string(),
+  }),
+  certificate: stringField,
+  //
+  // The private key of an SSH Key item is read as PKCS#8 PEM, which is what
+  // Roles Anywhere needs too.
+  //
+  "private-key": z.object({
+    type: z.union([
+      z.literal("STRING"),
+      z.literal("CONCEALED"),
+      z.literal("SSHKEY"),
+    ]),
+    value: z.string().min(1),
+  }),
+  "certificate-chain": stringField,
+  "trust-anchor-arn": stringField,
+  "profile-arn": stringField,
+  "role-arn": stringField,
+};
+
+const EXPECTED_TYPES: Record<OpFieldName, string> = {
+  "access-key-id": "STRING or CONCEALED",
+  "secret-access-key": "STRING or CONCEALED",
+  "mfa-serial": "STRING or CONCEALED",
+  totp: "OTP",
+  certificate: "STRING or CONCEALED",
+  "private-key": "STRING, CONCEALED or SSHKEY",
+  "certificate-chain": "STRING or CONCEALED",
+  "trust-anchor-arn": "STRING or CONCEALED",
+  "profile-arn": "STRING or CONCEALED",
+  "role-arn": "STRING or CONCEALED",
+};
+
+type FieldLookup =
+  | { kind: "found"; value: string }
+  | { kind: "missing"; selectors: string[] }
+  | { kind: "mistyped"; selector: string; type: string };
+
+export function parseOpFieldMapping(
+  value: string,
+  previous: OpFieldMapping,
+): OpFieldMapping {
+  const separator = value.indexOf("=");
+  const name = value.slice(0, separator);
+  const selector = value.slice(separator + 1);
+
+  if (separator < 0 || !OP_FIELD_NAMES.includes(name as OpFieldName)) {
+    throw new InvalidArgumentError(
+      `Expected <field>=<selector>, where field is one of ${OP_FIELD_NAMES.join(", ")}.`,
+    );
+  }
+  if (selector === "") {
+    throw new InvalidArgumentError(`No selector given for ${name}.`);
+  }
+
+  return { ...previous, [name]: selector };
+}
+
+function findField(item: Item, selector: string): Field | undefined {
+  const fields = item.fields ?? [];
+
+  const byIdOrLabel =
+    fields.find((f) => f.id === selector) ??
+    fields.find((f) => f.label === selector);
+  if (byIdOrLabel) return byIdOrLabel;
+
+  const separator = selector.lastIndexOf("/");
+  if (separator < 0) return undefined;
+
+  const section = selector.slice(0, separator);
+  const field = selector.slice(separator + 1);
+  return fields.find(
+    (f) =>
+      (f.section?.id === section || f.section?.label === section) &&
+      (f.id === field || f.label === field),
+  );
+}
+
+function readReference(
+  name: OpFieldName,
+  reference: string,
+  options: SourceOptions,
+): string {
+  //
+  // A reference to a one-time password field reads the seed unless the
+  // otp attribute is requested.
+  //
+  if (name === "totp" && !/[?&]attribute=/.test(reference)) {
+    reference += `${reference.includes("?") ? "&" : "?"}attribute=otp`;
+  }
+
+  logger.debug(`Reading 1password secret reference`, { name, reference });
+  return op.read
+    .parse(reference, { account: options.opAccount, noNewline: true })
+    .trim();
+}
+
+function lookupField(
+  item: Item,
+  name: OpFieldName,
+  options: SourceOptions,
+): FieldLookup {
+  const override = options.opField?.[name];
+
+  if (override?.startsWith("op://")) {
+    return { kind: "found", value: readReference(name, override, options) };
+  }
+
+  const selectors = override
+    ? [override]
+    : [
+        DEFAULT_FIELD_LABELS[name],
+        CATEGORY_FIELD_LABELS[item.category]?.[name],
+      ].filter((s) => s !== undefined);
+
+  for (const selector of selectors) {
+    const field = findField(item, selector);
+    if (!field) continue;
+
+    const parsed = opFieldSchemas[name].safeParse(field);
+    if (!parsed.success) {
+      return { kind: "mistyped", selector, type: field.type };
+    }
+    return {
+      kind: "found",
+      value: "totp" in parsed.data ? parsed.data.totp : parsed.data.value,
+    };
+  }
+
+  return { kind: "missing", selectors };
+}
+
+function describeProblem(name: OpFieldName, lookup: FieldLookup) {
+  switch (lookup.kind) {
+    case "missing":
+      return `${name}: not found (looked for ${lookup.selectors.map((s) => `"${s}"`).join(", ")})`;
+    case "mistyped":
+      return `${name}: field "${lookup.selector}" is ${lookup.type}, expected ${EXPECTED_TYPES[name]}`;
+    case "found":
+      return `${name}: ok`;
+  }
+}
+
+function getItem(options: SourceOptions): Item {
+  const { opAccount, opVault, opItem } = options;
+
+  logger.debug(`Looking for item in 1password`, {
+    opAccount,
+    opVault,
+    opItem,
+  });
+
+  const item = op.item.get(opItem, {
+    account: opAccount,
+    vault: opVault,
+  }) as Item;
+
+  logger.debug(`Found 1password item`, {
+    id: item.id,
+    title: item.title,
+    vault: item.vault,
+    category: item.category,
+  });
+  return item;
+}
+
+function lookupFields<N extends OpFieldName>(
+  item: Item,
+  names: readonly N[],
+  options: SourceOptions,
+) {
+  return Object.fromEntries(
+    names.map((name) => [name, lookupField(item, name, options)]),
+  ) as Record<N, FieldLookup>;
+}
+
+/**
+ * Throws an item-schema error listing the fields that are mistyped, or
+ * missing and required.
+ */
+function checkFields<N extends OpFieldName>(
+  item: Item,
+  lookups: Record<N, FieldLookup>,
+  required: Set<N>,
+) {
+  const names = Object.keys(lookups) as N[];
+  const problems = names.filter(
+    (name) =>
+      lookups[name].kind === "mistyped" ||
+      (lookups[name].kind === "missing" && required.has(name)),
+  );
+
+  if (problems.length > 0) {
+    throw new OpawsError(
+      "item-schema",
+      [
+        `1Password item "${item.title}" (${item.id}) is missing some fields, or they are the wrong type:`,
+        ...problems.map(
+          (name) => `  - ${describeProblem(name, lookups[name])}`,
+        ),
+        `Use --op-field <field>=<selector> to map fields with different labels.`,
+      ].join("\n"),
+    );
+  }
+}
+
+function foundValue(lookup: FieldLookup) {
+  return lookup.kind === "found" ? lookup.value : undefined;
+}
+
+export function get1pAwsKeys(options: SourceOptions): AwsKeys {
+  const item = getItem(options);
+  const lookups = lookupFields(item, KEY_FIELD_NAMES, options);
+
+  //
+  // The key pair is always required. The MFA fields are optional: a one-time
+  // password needs a serial to go with it, but a serial alone is fine, as
+  // the code can come from elsewhere. Explicitly mapped fields are required.
+  //
+  const required = new Set<(typeof KEY_FIELD_NAMES)[number]>([
+    "access-key-id",
+    "secret-access-key",
+  ]);
+  if (lookups.totp.kind !== "missing") required.add("mfa-serial");
+  KEY_FIELD_NAMES.filter((name) => options.opField?.[name] != null).forEach(
+    (name) => required.add(name),
+  );
+  checkFields(item, lookups, required);
+
+  return {
+    accessKeyId: foundValue(lookups["access-key-id"]),
+    secretAccessKey: foundValue(lookups["secret-access-key"]),
+    mfaSerial: foundValue(lookups["mfa-serial"]),
+    totp: foundValue(lookups.totp),
+    itemId: item.id,
+    itemVersion: item.version,
+  } as AwsKeys;
+}
+
+/**
+ * Reads an IAM Roles Anywhere certificate, its private key and the ARNs to
+ * create sessions with from an item. Only the certificate chain is
+ * optional.
+ */
+export function get1pRolesAnywhereCertificate(
+  options: SourceOptions,
+): RolesAnywhereCertificate {
+  const item = getItem(options);
+  const lookups = lookupFields(item, CERTIFICATE_FIELD_NAMES, options);
+  checkFields(
+    item,
+    lookups,
+    new Set(
+      CERTIFICATE_FIELD_NAMES.filter(
+        (name) =>
+          name !== "certificate-chain" || options.opField?.[name] != null,
+      ),
+    ),
+  );
+
+  return {
+    certificate: foundValue(lookups.certificate)!,
+    privateKey: foundValue(lookups["private-key"])!,
+    certificateChain: foundValue(lookups["certificate-chain"]),
+    trustAnchorArn: foundValue(lookups["trust-anchor-arn"])!,
+    profileArn: foundValue(lookups["profile-arn"])!,
+    roleArn: foundValue(lookups["role-arn"])!,
+    itemId: item.id,
+    itemVersion: item.version,
+  };
+}
+
+/**
+ * Creates a Secure Note item with the fields get1pAwsKeys expects by default.
+ * The one-time password seed can't be set this way, since it is only ever
+ * known to the authenticator that enrolled it.
+ */
+export function create1pAwsItem(
+  title: string,
+  keys: { accessKeyId: string; secretAccessKey: string; mfaSerial?: string },
+  options: { opVault?: string; opAccount?: string },
+): Item {
+  const field = (name: OpFieldName, type: string, value: string) => ({
+    id: name,
+    label: DEFAULT_FIELD_LABELS[name],
+    type,
+    value,
+  });
+  const template = {
+    title,
+    category: "SECURE_NOTE",
+    fields: [
+      field("access-key-id", "STRING", keys.accessKeyId),
+      field("secret-access-key", "CONCEALED", keys.secretAccessKey),
+      ...(keys.mfaSerial != null
+        ? [field("mfa-serial", "STRING", keys.mfaSerial)]
+        : []),
+    ],
+  };
+
+  //
+  // Given as field assignments, the secret would be on op's command line,
+  // for anyone on the machine to see. A template file only its owner can
+  // read keeps it out of sight.
+  //
+  const directory = mkdtempSync(join(tmpdir(), "opaws-item-"));
+  try {
+    const templateFile = join(directory, "item.json");
+    writeFileSync(templateFile, JSON.stringify(template), { mode: 0o600 });
+
+    logger.debug(`Creating 1password item`, { title, ...options });
+    return op.item.create([], {
+      template: templateFile,
+      vault: options.opVault,
+      account: options.opAccount,
+    });
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,118 @@
+import { Command } from "@commander-js/extra-typings";
+
+import {
+  CacheEntry,
+  getSessionLockDirectory,
+  listCacheEntries,
+} from "./cache.js";
+import { describeHolder, HeldLock, listLocks } from "./lock.js";
+import { formatDuration, formatTable } from "./util.js";
+
+function describeState(entry: CacheEntry, now: number) {
+  if (!entry.valid || entry.expiration == null) return "invalid";
+  if (entry.expiration.getTime() < now) return "expired";
+  return formatDuration(entry.expiration.getTime() - now);
+}
+
+function describeLock(lock: HeldLock | undefined, now: number) {
+  if (lock == null) return "";
+  const holder = describeHolder(lock.info, now);
+  return lock.state === "held" ? holder : `${holder}, ${lock.state}`;
+}
+
+export const command = new Command("status")
+  .option("--json", "Output status as JSON.")
+  .description("Lists cached sessions and roles, and any locks held.")
+  .action(async (options) => {
+    const now = Date.now();
+    const [entries, locks] = await Promise.all([
+      listCacheEntries(),
+      listLocks(),
+    ]);
+
+    const locksByPath = new Map(locks.map((l) => [l.path, l]));
+    const rows = entries
+      .sort((a, b) => a.filename.localeCompare(b.filename))
+      .map((entry) => ({
+        entry,
+        lock: locksByPath.get(getSessionLockDirectory(entry.key)),
+      }));
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          {
+            entries: rows.map(({ entry, lock }) => ({
+              ...entry.key,
+              filename: entry.filename,
+              origin: entry.origin,
+              valid: entry.valid,
+              expiration: entry.expiration?.toISOString(),
+              expired:
+                entry.expiration != null && entry.expiration.getTime() < now,
+              secondsRemaining:
+                entry.expiration != null
+                  ? Math.max(
+                      0,
+                      Math.floor((entry.expiration.getTime() - now) / 1000),
+                    )
+                  : undefined,
+              lock: lock?.info,
+            })),
+            locks,
+          },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+
+    if (rows.length === 0) {
+      console.log("No cached credentials.");
+    } else {
+      console.log(
+        formatTable(
+          [
+            "KIND",
+            "ACCOUNT",
+            "VAULT",
+            "ITEM",
+            "ROLE",
+            "SESSION",
+            "STS",
+            "REMAINING",
+            "LOCK",
+          ],
+          rows.map(({ entry, lock }) => [
+            entry.key.kind,
+            entry.key.opAccount ?? "default",
+            entry.key.opVault ?? "default",
+            entry.key.opItem,
+            entry.key.kind === "role"
+              ? [...(entry.key.via ?? []), entry.key.roleArn].join(" -> ")
+              : "",
+            entry.key.kind === "role"
+              ? (entry.key.roleSessionName ?? "default")
+              : "",
+            entry.key.sts ?? "default",
+            describeState(entry, now),
+            describeLock(lock, now),
+          ]),
+        ),
+      );
+    }
+
+    const orphanLocks = locks.filter(
+      (l) => !rows.some((r) => r.lock?.path === l.path),
+    );
+    if (orphanLocks.length > 0) {
+      console.log();
+      console.log(
+        formatTable(
+          ["LOCK", "HOLDER"],
+          orphanLocks.map((l) => [l.path, describeLock(l, now)]),
+        ),
+      );
+    }
+  });
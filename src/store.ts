@@ -0,0 +1,204 @@
+import { Credentials } from "@aws-sdk/client-sts";
+
+import {
+  CacheEntryKey,
+  CachedCredentials,
+  getSessionLockDirectory,
+  isSameItem,
+  KeyOrigin,
+  listCacheEntries,
+  readCachedCredentials,
+  readCachedOrigin,
+  readSourceCheckedAt,
+  removeCacheEntry,
+  writeCachedCredentials,
+  writeSourceCheckedAt,
+} from "./cache.js";
+import { LockOptions, withLock } from "./lock.js";
+import { logger } from "./logger.js";
+import { isSameKeyOrigin } from "./sources/keys.js";
+
+/**
+ * Where fetched credentials are kept, and how fetches of the same session
+ * are serialised.
+ */
+export type CredentialStore = {
+  read: (
+    key: CacheEntryKey,
+    refreshBeforeSeconds: number,
+  ) => Promise<CachedCredentials | undefined>;
+  write: (
+    key: CacheEntryKey,
+    creds: Credentials,
+    origin: KeyOrigin | undefined,
+  ) => Promise<void>;
+  /** Which keys an entry's credentials were issued from, if known. */
+  readOrigin: (key: CacheEntryKey) => Promise<KeyOrigin | undefined>;
+  /**
+   * Removes the entries for the key's item, session and roles alike, that
+   * weren't issued from the given keys.
+   */
+  invalidate: (key: CacheEntryKey, origin: KeyOrigin) => Promise<void>;
+  /**
+   * When the key's item was last checked against its source, in
+   * milliseconds since the epoch, if ever.
+   */
+  readSourceCheckedAt: (key: CacheEntryKey) => Promise<number | undefined>;
+  markSourceChecked: (key: CacheEntryKey) => Promise<void>;
+  withSessionLock: <T>(
+    key: CacheEntryKey,
+    options: Pick<LockOptions, "onWait">,
+    callback: () => Promise<T>,
+  ) => Promise<T>;
+  /**
+   * Whether the store lives in a long-running process, which can refresh
+   * sessions in the background itself rather than spawning a process to.
+   */
+  longLived: boolean;
+};
+
+export type MemoryStoreEntry = {
+  key: CacheEntryKey;
+  origin?: KeyOrigin;
+  expiration: Date;
+};
+
+/**
+ * Names the item a session comes from, for anyone waiting on its lock.
+ */
+function describeSession(key: CacheEntryKey) {
+  return [
+    `item ${key.opItem}`,
+    key.opVault != null ? `in vault ${key.opVault}` : undefined,
+    key.opAccount != null ? `of account ${key.opAccount}` : undefined,
+    key.source != null ? `from ${key.source}` : undefined,
+  ]
+    .filter((part) => part != null)
+    .join(" ");
+}
+
+/**
+ * The encrypted cache files in the temp directory, shared by every process.
+ */
+export const diskStore: CredentialStore = {
+  read: readCachedCredentials,
+  write: writeCachedCredentials,
+  readOrigin: readCachedOrigin,
+  invalidate: async (key, origin) => {
+    const stale = (await listCacheEntries()).filter(
+      (e) => isSameItem(e.key, key) && !isSameKeyOrigin(e.origin, origin),
+    );
+    await Promise.all(stale.map(removeCacheEntry));
+    logger.info(`Removed cache entries issued from other keys`, {
+      filenames: stale.map((e) => e.filename),
+    });
+  },
+  readSourceCheckedAt,
+  markSourceChecked: writeSourceCheckedAt,
+  withSessionLock: (key, options, callback) =>
+    withLock(getSessionLockDirectory(key), callback, {
+      ...options,
+      description: describeSession(key),
+    }),
+  longLived: false,
+};
+
+/**
+ * Keys the in-memory maps. Entries differing only in fields that aren't
+ * part of the session must still share its lock.
+ */
+function sessionId(key: CacheEntryKey) {
+  return JSON.stringify([key.source, key.opAccount, key.opVault, key.opItem]);
+}
+
+/**
+ * Credentials held only in this process's memory, for the agent.
+ */
+export function createMemoryStore(): CredentialStore & {
+  entries: () => MemoryStoreEntry[];
+} {
+  const credentials = new Map<
+    string,
+    { key: CacheEntryKey; origin?: KeyOrigin; creds: CachedCredentials }
+  >();
+  const locks = new Map<string, Promise<unknown>>();
+  const sourceCheckedAt = new Map<string, number>();
+
+  return {
+    read: async (key, refreshBeforeSeconds) => {
+      const entry = credentials.get(JSON.stringify(key));
+      if (entry == null) return undefined;
+
+      const expiresAt = entry.creds.Expiration.getTime();
+      if (expiresAt - refreshBeforeSeconds * 1000 < Date.now()) {
+        logger.info(`Credentials in memory expire soon or have expired.`, {
+          key,
+          expiration: entry.creds.Expiration,
+        });
+        return undefined;
+      }
+      return entry.creds;
+    },
+
+    write: async (key, creds, origin) => {
+      credentials.set(JSON.stringify(key), {
+        key,
+        origin,
+        creds: {
+          AccessKeyId: creds.AccessKeyId!,
+          SecretAccessKey: creds.SecretAccessKey!,
+          SessionToken: creds.SessionToken!,
+          Expiration: creds.Expiration!,
+        },
+      });
+    },
+
+    readOrigin: async (key) => credentials.get(JSON.stringify(key))?.origin,
+
+    invalidate: async (key, origin) => {
+      for (const [id, entry] of credentials) {
+        if (
+          isSameItem(entry.key, key) &&
+          !isSameKeyOrigin(entry.origin, origin)
+        ) {
+          credentials.delete(id);
+        }
+      }
+    },
+
+    readSourceCheckedAt: async (key) => sourceCheckedAt.get(sessionId(key)),
+
+    markSourceChecked: async (key) => {
+      sourceCheckedAt.set(sessionId(key), Date.now());
+    },
+
+    //
+    // Each caller waits for the one before it, whether that succeeded or
+    // not. The chain is dropped once its last caller is done.
+    //
+    withSessionLock: <T>(
+      key: CacheEntryKey,
+      _options: Pick<LockOptions, "onWait">,
+      callback: () => Promise<T>,
+    ) => {
+      const id = sessionId(key);
+      const previous = locks.get(id) ?? Promise.resolve();
+      const result = previous.catch(() => undefined).then(callback);
+      const tail = result.catch(() => undefined);
+      locks.set(id, tail);
+      void tail.then(() => {
+        if (locks.get(id) === tail) locks.delete(id);
+      });
+      return result;
+    },
+
+    longLived: true,
+
+    entries: () =>
+      [...credentials.values()].map(({ key, origin, creds }) => ({
+        key,
+        origin,
+        expiration: creds.Expiration,
+      })),
+  };
+}
@@ -0,0 +1,161 @@
+import { STS } from "@aws-sdk/client-sts";
+import { NodeHttpHandler } from "@smithy/node-http-handler";
+import { HttpsProxyAgent } from "https-proxy-agent";
+
+import { logger } from "./logger.js";
+
+//
+// Where opaws sends its STS requests. Unset options fall back to the AWS
+// SDK's own configuration (AWS_REGION, the shared config file, and so on).
+//
+export type StsOptions = {
+  stsRegion?: string;
+  stsEndpoint?: string;
+  stsFips?: boolean;
+  stsDualstack?: boolean;
+  proxy?: string;
+};
+
+type StsCredentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+};
+
+//
+// Region prefixes of the partitions other than the standard one. Longer
+// prefixes first, since us-isob- also starts with us-iso.
+//
+const PARTITION_PREFIXES: [string, string][] = [
+  ["cn-", "aws-cn"],
+  ["us-gov-", "aws-us-gov"],
+  ["us-isob-", "aws-iso-b"],
+  ["us-isof-", "aws-iso-f"],
+  ["eu-isoe-", "aws-iso-e"],
+  ["us-iso-", "aws-iso"],
+];
+
+/**
+ * Whether NO_PROXY exempts a host from the environment's proxy. Entries
+ * match the host and its subdomains, with or without a leading "." or "*.";
+ * "*" matches every host. Ports are ignored.
+ */
+function isExemptFromProxy(host: string) {
+  const noProxy = process.env.NO_PROXY ?? process.env.no_proxy ?? "";
+  return noProxy
+    .split(/[,\s]+/)
+    .filter((entry) => entry !== "")
+    .some((entry) => {
+      if (entry === "*") return true;
+      const name = entry
+        .replace(/^\*?\./, "")
+        .replace(/:\d+$/, "")
+        .toLowerCase();
+      return host === name || host.endsWith(`.${name}`);
+    });
+}
+
+/**
+ * The proxy to send requests to a URL through: --proxy, or else HTTPS_PROXY
+ * unless NO_PROXY exempts the URL's host.
+ */
+export function getProxy(options: StsOptions, url: string) {
+  if (options.proxy) return options.proxy;
+
+  const proxy = process.env.HTTPS_PROXY || process.env.https_proxy;
+  if (!proxy) return undefined;
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  return isExemptFromProxy(host) ? undefined : proxy;
+}
+
+//
+// Where the STS client sends requests without --sts-endpoint, near enough to
+// check against NO_PROXY.
+//
+function getDefaultStsEndpoint(options: StsOptions) {
+  if (options.stsRegion == null) return "https://sts.amazonaws.com";
+  const suffix =
+    getPartition(options.stsRegion) === "aws-cn"
+      ? "amazonaws.com.cn"
+      : "amazonaws.com";
+  return `https://sts.${options.stsRegion}.${suffix}`;
+}
+
+/**
+ * Creates an STS client for the given credentials, configured by the STS
+ * options. Every STS request opaws makes goes through one of these.
+ */
+export function createStsClient(
+  credentials: StsCredentials,
+  options: StsOptions,
+) {
+  const proxy = getProxy(
+    options,
+    options.stsEndpoint ?? getDefaultStsEndpoint(options),
+  );
+  if (proxy != null) logger.debug(`Using proxy for STS`, { proxy });
+
+  //
+  // The same agent tunnels plain HTTP too, for a local STS stand-in.
+  //
+  const agent = proxy != null ? new HttpsProxyAgent(proxy) : undefined;
+
+  return new STS({
+    credentials,
+    region: options.stsRegion,
+    endpoint: options.stsEndpoint,
+    useFipsEndpoint: options.stsFips,
+    useDualstackEndpoint: options.stsDualstack,
+    requestHandler:
+      agent != null
+        ? new NodeHttpHandler({ httpAgent: agent, httpsAgent: agent })
+        : undefined,
+  });
+}
+
+/**
+ * The partition a region belongs to, e.g. aws-cn for cn-north-1.
+ */
+export function getPartition(region: string) {
+  return (
+    PARTITION_PREFIXES.find(([prefix]) => region.startsWith(prefix))?.[1] ??
+    "aws"
+  );
+}
+
+/**
+ * Fills in the region the STS client would use when --sts-region isn't
+ * given, resolved by the AWS SDK itself (from the environment, or the
+ * profile's region in the shared config file), so that cache keys reflect
+ * where requests actually go. Left unset if the SDK finds none.
+ */
+export async function resolveStsRegion<T extends StsOptions>(
+  options: T,
+): Promise<T> {
+  if (options.stsRegion != null) return options;
+  try {
+    const stsRegion = await new STS({}).config.region();
+    logger.debug(`Resolved STS region`, { stsRegion });
+    return { ...options, stsRegion };
+  } catch {
+    return options;
+  }
+}
+
+/**
+ * Identifies where credentials were issued, for the cache key. Credentials
+ * from the standard partition's own endpoints have none, so existing cache
+ * entries stay valid; those from another partition or a custom endpoint
+ * can't be used with the standard one, or with each other.
+ */
+export function getStsCacheKey(options: StsOptions) {
+  //
+  // Options should have been through resolveStsRegion; AWS_REGION, which
+  // takes precedence there, covers any that haven't.
+  //
+  const region = options.stsRegion ?? process.env.AWS_REGION;
+  const partition = region != null ? getPartition(region) : "aws";
+  if (partition === "aws" && options.stsEndpoint == null) return undefined;
+  return options.stsEndpoint ?? partition;
+}
@@ -1,3 +1,11 @@
+import { createHash } from "crypto";
+import { lstat, mkdir, rename, rm, writeFile } from "fs/promises";
+import { connect, Server } from "net";
+import { homedir } from "os";
+import { dirname, join } from "path";
+
+export const OPAWS_CONFIG_DIRECTORY = join(homedir(), ".config", "opaws");
+
 export function sanitizeFilename(filename: string) {
   return filename.replace(/[/\\?%*:|"<>]/g, "-");
 }
@@ -9,3 +17,195 @@ export function isFileNotFoundError(
   if (!("code" in e)) return false;
   return e.code === "ENOENT";
 }
+
+export function isFileExistsError(e: unknown): e is Error & { code: "EEXIST" } {
+  if (!(e instanceof Error)) return false;
+  if (!("code" in e)) return false;
+  return e.code === "EEXIST";
+}
+
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+export function formatTable(header: string[], rows: string[][]) {
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => (r[i] ?? "").length)),
+  );
+  return [header, ...rows]
+    .map((r) =>
+      r
+        .map((cell, i) => (cell ?? "").padEnd(widths[i]))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+/**
+ * A line-based diff of two small texts, in the style of `diff -u` without
+ * hunk headers.
+ */
+export function diffLines(before: string, after: string, context = 2) {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  //
+  // Longest common subsequence table, filled from the end.
+  //
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: { op: " " | "-" | "+"; line: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ op: " ", line: a[i++] });
+      j++;
+    } else if (
+      i < a.length &&
+      (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      ops.push({ op: "-", line: a[i++] });
+    } else {
+      ops.push({ op: "+", line: b[j++] });
+    }
+  }
+
+  const changed = ops.map((o) => o.op !== " ");
+  return ops
+    .filter((_, k) =>
+      changed.slice(Math.max(0, k - context), k + context + 1).some((c) => c),
+    )
+    .map((o) => `${o.op} ${o.line}`)
+    .join("\n");
+}
+
+/**
+ * A short hash of a value, for file names and cache keys. Too short to
+ * protect secrets.
+ */
+export function fingerprint(value: string) {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * Quotes an argument for a POSIX shell-style command line, such as the AWS
+ * credential_process setting, if it needs it.
+ */
+export function quoteShellArg(arg: string) {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+  return `"${arg.replace(/(["\\$`])/g, "\\$1")}"`;
+}
+
+/**
+ * Splits a POSIX shell-style command line into its arguments, undoing
+ * quoteShellArg and single quotes. Expansions aren't performed.
+ */
+export function splitShellArgs(commandLine: string) {
+  const args: string[] = [];
+  let current: string | undefined;
+  let quote: string | undefined;
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+    if (quote == null && /\s/.test(char)) {
+      if (current != null) args.push(current);
+      current = undefined;
+      continue;
+    }
+
+    current ??= "";
+    if (char === quote) {
+      quote = undefined;
+    } else if (quote == null && (char === '"' || char === "'")) {
+      quote = char;
+    } else if (char === "\\" && quote !== "'" && i + 1 < commandLine.length) {
+      current += commandLine[++i];
+    } else {
+      current += char;
+    }
+  }
+
+  if (quote != null) throw new Error(`Unterminated ${quote} in ${commandLine}`);
+  if (current != null) args.push(current);
+  return args;
+}
+
+/**
+ * Replaces a file atomically, readable only by the current user.
+ */
+export async function writeFileAtomic(filename: string, content: string) {
+  await mkdir(dirname(filename), { recursive: true, mode: 0o700 });
+  const tmp = `${filename}.tmp.${process.pid}`;
+  await writeFile(tmp, content, { mode: 0o600 });
+  await rename(tmp, filename);
+}
+
+function isSocketInUse(socket: string) {
+  return new Promise<boolean>((resolve) => {
+    const connection = connect(socket);
+    connection.once("connect", () => {
+      connection.destroy();
+      resolve(true);
+    });
+    connection.once("error", () => resolve(false));
+  });
+}
+
+/**
+ * Removes a unix socket left behind by a server that didn't shut down
+ * cleanly. Throws if something is still listening on it; anything that isn't
+ * a socket is left alone.
+ */
+export async function removeStaleSocket(socket: string) {
+  try {
+    if (!(await lstat(socket)).isSocket()) return;
+  } catch (e) {
+    if (!isFileNotFoundError(e)) throw e;
+    return;
+  }
+
+  if (await isSocketInUse(socket)) {
+    throw new Error(`Another server is already listening on ${socket}.`);
+  }
+  await rm(socket);
+}
+
+/**
+ * Starts a server listening on a unix socket only the current user can
+ * connect to.
+ */
+export async function listenOnSocket(server: Server, socket: string) {
+  //
+  // The socket is created with the umask's permissions. Restricting those
+  // while it's created, rather than chmodding it afterwards, leaves no
+  // window in which others could connect.
+  //
+  const umask = process.umask(0o177);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(socket, resolve);
+    });
+  } finally {
+    process.umask(umask);
+  }
+}
@@ -0,0 +1,264 @@
+import { basename } from "path";
+
+import { Command } from "@commander-js/extra-typings";
+
+import {
+  createAuthenticateCommand,
+  CredentialOptions,
+  getOrFetchCredentials,
+  getSessionCacheKey,
+} from "./authenticate.js";
+import {
+  getAwsConfigFilename,
+  profileFromConfigSection,
+  readIniFile,
+} from "./awsfiles.js";
+import { ConfigError, getConfigFilename, loadConfig } from "./config.js";
+import { classifyError } from "./errors.js";
+import { configureDebugLogging, logger } from "./logger.js";
+import { finishRun } from "./logs.js";
+import { formatDuration, formatTable, splitShellArgs } from "./util.js";
+
+//
+// Fetches credentials for many profiles at once, e.g. first thing in the
+// morning, so the tools that use them don't each queue on the session lock.
+// Profiles are grouped by the item their keys come from: each item's
+// session is fetched once, one item at a time so there's one prompt at a
+// time, and then every role is assumed in parallel.
+//
+
+type WarmTarget = {
+  profile: string;
+  options?: CredentialOptions;
+  error?: string;
+};
+
+type WarmResult = {
+  profile: string;
+  opItem?: string;
+  roleArn?: string;
+  ok: boolean;
+  expiration?: string;
+  error?: string;
+  exitCode?: number;
+};
+
+/**
+ * The opaws arguments of a credential_process line, or undefined if it
+ * doesn't run opaws.
+ */
+function findOpawsArgs(credentialProcess: string) {
+  const words = splitShellArgs(credentialProcess);
+  const index = words.findIndex((w) =>
+    /^opaws(\.cmd|\.exe)?$/i.test(basename(w)),
+  );
+  if (index < 0) return undefined;
+
+  const args = words.slice(index + 1);
+  return args[0] === "authenticate" ? args.slice(1) : args;
+}
+
+function parseCredentialArgs(profile: string, args: string[]): WarmTarget {
+  const command = createAuthenticateCommand()
+    .exitOverride()
+    .configureOutput({ writeOut: () => {}, writeErr: () => {} });
+  try {
+    command.parse(args, { from: "user" });
+  } catch (e) {
+    return { profile, error: (e as Error).message.replace(/^error: /, "") };
+  }
+  return { profile, options: command.opts() };
+}
+
+async function findAwsProfiles(): Promise<WarmTarget[]> {
+  const config = await readIniFile(getAwsConfigFilename());
+  return config.sections.flatMap((section) => {
+    const profile = profileFromConfigSection(section.name);
+    const credentialProcess = section.values.credential_process;
+    if (profile == null || credentialProcess == null) return [];
+
+    let args: string[] | undefined;
+    try {
+      args = findOpawsArgs(credentialProcess);
+    } catch (e) {
+      return [{ profile, error: (e as Error).message }];
+    }
+    return args != null ? [parseCredentialArgs(profile, args)] : [];
+  });
+}
+
+function findOpawsProfiles(): WarmTarget[] {
+  return Object.keys(loadConfig().profiles).map((profile) =>
+    parseCredentialArgs(profile, ["--profile", profile]),
+  );
+}
+
+function failure(target: WarmTarget, e: unknown): WarmResult {
+  const error = classifyError(e);
+  logger.info(`Could not warm ${target.profile}`, e);
+  return {
+    profile: target.profile,
+    opItem: target.options?.opItem,
+    roleArn: target.options?.roleArn,
+    ok: false,
+    error: error.message,
+    exitCode: error.exitCode,
+  };
+}
+
+async function warmTarget(target: WarmTarget): Promise<WarmResult> {
+  if (target.options == null) {
+    return {
+      profile: target.profile,
+      ok: false,
+      error: target.error,
+      exitCode: 1,
+    };
+  }
+
+  try {
+    const creds = await getOrFetchCredentials(target.options);
+    return {
+      profile: target.profile,
+      opItem: target.options.opItem,
+      roleArn: target.options.roleArn,
+      ok: true,
+      expiration: creds.Expiration?.toISOString(),
+    };
+  } catch (e) {
+    return failure(target, e);
+  }
+}
+
+/**
+ * Fetches the session for each item, one item at a time. Returns the
+ * failures of profiles whose session couldn't be had, and the profiles
+ * left to warm.
+ */
+async function warmSessions(targets: WarmTarget[]) {
+  const groups = new Map<string, WarmTarget[]>();
+  for (const target of targets) {
+    //
+    // Roles assumed directly don't use the session.
+    //
+    if (target.options == null || target.options.directRole) continue;
+    const id = JSON.stringify(getSessionCacheKey(target.options));
+    groups.set(id, [...(groups.get(id) ?? []), target]);
+  }
+
+  const failed: WarmResult[] = [];
+  for (const group of groups.values()) {
+    //
+    // A profile for the session itself has its options to hand; otherwise,
+    // fetch it as assuming a role would, without a duration.
+    //
+    const first = group[0].options!;
+    const sessionOptions = group.find((t) => t.options!.roleArn == null)
+      ?.options ?? { ...first, roleArn: undefined, duration: undefined };
+
+    logger.info(`Warming session`, { opItem: first.opItem });
+    try {
+      await getOrFetchCredentials(sessionOptions);
+    } catch (e) {
+      failed.push(...group.map((t) => failure(t, e)));
+    }
+  }
+
+  return {
+    failed,
+    remaining: targets.filter(
+      (t) => !failed.some((f) => f.profile === t.profile),
+    ),
+  };
+}
+
+function describeResult(result: WarmResult, now: number) {
+  if (!result.ok) return `failed (${result.exitCode}): ${result.error ?? ""}`;
+  if (result.expiration == null) return "ok";
+  return `ok, ${formatDuration(new Date(result.expiration).getTime() - now)} left`;
+}
+
+export const command = new Command("warm")
+  .argument(
+    "[profiles...]",
+    "Profiles to warm. By default, every profile that uses opaws.",
+  )
+  .option(
+    "--opaws-profiles",
+    "Warm the profiles in the opaws config file, rather than the AWS profiles whose credential_process runs opaws.",
+  )
+  .option("--json", "Output the results as JSON.")
+  .option("--debug", "Log debug messages to the console.")
+  .description(
+    "Fetches and caches credentials for many profiles at once, with one prompt per item.",
+  )
+  .action(async (profiles, options) => {
+    if (options.debug) {
+      configureDebugLogging();
+    }
+
+    let targets: WarmTarget[];
+    try {
+      targets = options.opawsProfiles
+        ? findOpawsProfiles()
+        : await findAwsProfiles();
+    } catch (e) {
+      if (!(e instanceof ConfigError)) throw e;
+      console.error(e.message);
+      process.exit(1);
+    }
+
+    if (profiles.length > 0) {
+      const unknown = profiles.filter(
+        (p) => !targets.some((t) => t.profile === p),
+      );
+      if (unknown.length > 0) {
+        console.error(
+          `No opaws profiles named ${unknown.join(", ")} in ${options.opawsProfiles ? getConfigFilename() : getAwsConfigFilename()}.`,
+        );
+        process.exit(1);
+      }
+      targets = targets.filter((t) => profiles.includes(t.profile));
+    }
+
+    if (targets.length === 0) {
+      console.log("No profiles use opaws.");
+      return;
+    }
+
+    const { failed, remaining } = await warmSessions(targets);
+    const results = [
+      ...failed,
+      ...(await Promise.all(remaining.map(warmTarget))),
+    ].sort((a, b) => a.profile.localeCompare(b.profile));
+
+    const firstFailure = results.find((r) => !r.ok);
+    await finishRun(
+      "warm",
+      {},
+      firstFailure != null
+        ? new Error(
+            `${results.filter((r) => !r.ok).length} of ${results.length} profiles failed`,
+          )
+        : undefined,
+    );
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      const now = Date.now();
+      console.log(
+        formatTable(
+          ["PROFILE", "ITEM", "ROLE", "RESULT"],
+          results.map((r) => [
+            r.profile,
+            r.opItem ?? "",
+            r.roleArn ?? "",
+            describeResult(r, now),
+          ]),
+        ),
+      );
+    }
+
+    if (firstFailure != null) process.exit(1);
+  });
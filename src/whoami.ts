@@ -0,0 +1,164 @@
+import { Credentials } from "@aws-sdk/client-sts";
+
+import { getAgentCredentials } from "./agent/client.js";
+import {
+  createCredentialCommand,
+  CredentialOptions,
+  getOrFetchStoredCredentials,
+  getRoleCacheKey,
+  getSessionCacheKey,
+  reportFailure,
+} from "./authenticate.js";
+import { CachedCredentials } from "./cache.js";
+import { OpawsError } from "./errors.js";
+import { configureDebugLogging } from "./logger.js";
+import { finishRun } from "./logs.js";
+import { diskStore } from "./store.js";
+import { createStsClient, resolveStsRegion } from "./sts.js";
+import { formatDuration } from "./util.js";
+
+type CredentialSource = "agent" | "cache" | "fresh";
+
+type Identity = {
+  account: string;
+  arn: string;
+  userId: string;
+  source: CredentialSource;
+  expiration?: string;
+};
+
+/**
+ * Gets credentials the way authenticate does, and says where they came
+ * from. Credentials are from the cache if they're the ones it held before.
+ */
+async function getCredentialsWithSource(options: CredentialOptions): Promise<{
+  creds: CachedCredentials | Credentials;
+  source: CredentialSource;
+}> {
+  options = await resolveStsRegion(options);
+  if (options.agent) {
+    const creds = await getAgentCredentials(options);
+    if (creds != null) return { creds, source: "agent" };
+  }
+
+  const cacheKey =
+    options.roleArn != null
+      ? getRoleCacheKey(options)
+      : getSessionCacheKey(options);
+  const cached = options.cache
+    ? await diskStore.read(cacheKey, options.refreshBefore)
+    : undefined;
+
+  const creds = await getOrFetchStoredCredentials(options, diskStore);
+  return {
+    creds,
+    source:
+      cached != null && cached.AccessKeyId === creds.AccessKeyId
+        ? "cache"
+        : "fresh",
+  };
+}
+
+/**
+ * Matches an ARN against a pattern in which * stands for any run of
+ * characters, e.g. arn:aws:sts::123456789012:assumed-role/Admin/*.
+ */
+function matchesArnPattern(arn: string, pattern: string) {
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}$`).test(arn);
+}
+
+function checkIdentity(
+  identity: Identity,
+  expected: { expectAccount?: string; expectArn?: string },
+) {
+  if (
+    expected.expectAccount != null &&
+    identity.account !== expected.expectAccount
+  ) {
+    throw new OpawsError(
+      "identity-mismatch",
+      `The credentials are for account ${identity.account}, not ${expected.expectAccount}.`,
+    );
+  }
+  if (
+    expected.expectArn != null &&
+    !matchesArnPattern(identity.arn, expected.expectArn)
+  ) {
+    throw new OpawsError(
+      "identity-mismatch",
+      `The credentials are for ${identity.arn}, which doesn't match ${expected.expectArn}.`,
+    );
+  }
+}
+
+export const command = createCredentialCommand("whoami")
+  .option(
+    "--expect-account <account>",
+    "Exit with an error if the credentials are for another account.",
+  )
+  .option(
+    "--expect-arn <pattern>",
+    "Exit with an error if the caller's ARN doesn't match this pattern, in which * matches anything.",
+  )
+  .option("--json", "Output the identity as JSON.")
+  .description(
+    "Shows the account and principal that credentials for these options belong to.",
+  )
+  .action(async (options) => {
+    if (options.debug) {
+      configureDebugLogging();
+    }
+
+    let identity: Identity;
+    try {
+      const { creds, source } = await getCredentialsWithSource(options);
+      const caller = await createStsClient(
+        {
+          accessKeyId: creds.AccessKeyId!,
+          secretAccessKey: creds.SecretAccessKey!,
+          sessionToken: creds.SessionToken,
+        },
+        options,
+      ).getCallerIdentity({});
+      identity = {
+        account: caller.Account!,
+        arn: caller.Arn!,
+        userId: caller.UserId!,
+        source,
+        expiration: creds.Expiration?.toISOString(),
+      };
+    } catch (e) {
+      const exitCode = await reportFailure(e);
+      await finishRun("whoami", options, e);
+      process.exit(exitCode);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(identity, null, 2));
+    } else {
+      console.log(`Account:     ${identity.account}`);
+      console.log(`ARN:         ${identity.arn}`);
+      console.log(`User ID:     ${identity.userId}`);
+      console.log(`Credentials: ${identity.source}`);
+      if (identity.expiration != null) {
+        console.log(
+          `Expires:     ${identity.expiration} (in ${formatDuration(new Date(identity.expiration).getTime() - Date.now())})`,
+        );
+      }
+    }
+
+    try {
+      checkIdentity(identity, options);
+    } catch (e) {
+      const error = e as OpawsError;
+      console.error(error.message);
+      console.error(error.hint);
+      await finishRun("whoami", options, error);
+      process.exit(error.exitCode);
+    }
+    await finishRun("whoami", options);
+  });